@@ -0,0 +1,162 @@
+/**
+ * AudioWorklet processor for the 16 kHz PCM16 uplink.
+ *
+ * Runs on the audio rendering thread so capture is not starved by work on
+ * the main thread. Input is low-pass filtered and resampled to the target
+ * rate, accumulated into exact 20 ms frames, converted to PCM16 and posted
+ * back as:
+ *
+ *   { pcm: ArrayBuffer, rms: number }
+ *
+ * `StreamingResampler` and `FrameAccumulator` mirror
+ * `src/app/utils/resampler.ts` — keep the two in sync.
+ */
+
+class StreamingResampler {
+  constructor(inputRate, outputRate, options) {
+    const { zeroCrossings = 8, phases = 256, rolloff = 0.9 } = options || {};
+
+    this.ratio = inputRate / outputRate;
+    this.phases = phases;
+
+    const cutoff = Math.min(1, 1 / this.ratio) * rolloff;
+    this.halfWidth = Math.ceil(zeroCrossings / cutoff);
+    this.taps = this.halfWidth * 2;
+    this.table = buildKernelTable(cutoff, this.halfWidth, phases);
+
+    this.buffer = new Float32Array(this.taps + 4096);
+    this.length = this.halfWidth;
+    this.position = this.halfWidth;
+  }
+
+  process(input) {
+    this.ensureCapacity(this.length + input.length);
+    this.buffer.set(input, this.length);
+    this.length += input.length;
+
+    const maxOut = Math.ceil((this.length - this.halfWidth - this.position) / this.ratio) + 1;
+    const output = new Float32Array(Math.max(0, maxOut));
+    let produced = 0;
+
+    for (;;) {
+      let base = Math.floor(this.position);
+      let phase = Math.round((this.position - base) * this.phases);
+      if (phase === this.phases) {
+        base += 1;
+        phase = 0;
+      }
+      if (base + this.halfWidth >= this.length) break;
+
+      const start = base - this.halfWidth + 1;
+      const offset = phase * this.taps;
+      let acc = 0;
+      for (let j = 0; j < this.taps; j++) {
+        acc += this.buffer[start + j] * this.table[offset + j];
+      }
+      output[produced++] = acc;
+      this.position += this.ratio;
+    }
+
+    const keepFrom = Math.max(0, Math.floor(this.position) - this.halfWidth);
+    if (keepFrom > 0) {
+      this.buffer.copyWithin(0, keepFrom, this.length);
+      this.length -= keepFrom;
+      this.position -= keepFrom;
+    }
+
+    return output.subarray(0, produced);
+  }
+
+  ensureCapacity(required) {
+    if (required <= this.buffer.length) return;
+    const next = new Float32Array(Math.max(required, this.buffer.length * 2));
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+}
+
+function buildKernelTable(cutoff, halfWidth, phases) {
+  const taps = halfWidth * 2;
+  const table = new Float32Array(phases * taps);
+
+  for (let p = 0; p < phases; p++) {
+    const frac = p / phases;
+    let sum = 0;
+    for (let j = 0; j < taps; j++) {
+      const x = j - halfWidth + 1 - frac;
+      const u = cutoff * x;
+      const sinc = u === 0 ? 1 : Math.sin(Math.PI * u) / (Math.PI * u);
+      const w = Math.abs(x) >= halfWidth
+        ? 0
+        : 0.42 + 0.5 * Math.cos((Math.PI * x) / halfWidth) + 0.08 * Math.cos((2 * Math.PI * x) / halfWidth);
+      const h = sinc * w;
+      table[p * taps + j] = h;
+      sum += h;
+    }
+    for (let j = 0; j < taps; j++) {
+      table[p * taps + j] /= sum;
+    }
+  }
+
+  return table;
+}
+
+class FrameAccumulator {
+  constructor(frameSize) {
+    this.frameSize = frameSize;
+    this.pending = new Float32Array(frameSize);
+    this.length = 0;
+  }
+
+  push(samples, onFrame) {
+    let offset = 0;
+    while (offset < samples.length) {
+      const take = Math.min(this.frameSize - this.length, samples.length - offset);
+      this.pending.set(samples.subarray(offset, offset + take), this.length);
+      this.length += take;
+      offset += take;
+
+      if (this.length === this.frameSize) {
+        onFrame(this.pending);
+        this.pending = new Float32Array(this.frameSize);
+        this.length = 0;
+      }
+    }
+  }
+}
+
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const {
+      targetSampleRate = 16000,
+      frameSize = 320,
+    } = (options && options.processorOptions) || {};
+
+    this.resampler = new StreamingResampler(sampleRate, targetSampleRate);
+    this.accumulator = new FrameAccumulator(frameSize);
+    this.postFrame = this.postFrame.bind(this);
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    this.accumulator.push(this.resampler.process(input), this.postFrame);
+    return true;
+  }
+
+  postFrame(frame) {
+    const pcm16 = new Int16Array(frame.length);
+    let energySum = 0;
+    for (let i = 0; i < frame.length; i++) {
+      const s = Math.max(-1, Math.min(1, frame[i]));
+      energySum += s * s;
+      pcm16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+    const rms = Math.sqrt(energySum / frame.length);
+    this.port.postMessage({ pcm: pcm16.buffer, rms }, [pcm16.buffer]);
+  }
+}
+
+registerProcessor("pcm16-capture", Pcm16CaptureProcessor);
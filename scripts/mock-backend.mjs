@@ -0,0 +1,490 @@
+/**
+ * Local stand-in for the voice backend, speaking the call protocol in
+ * `src/app/utils/protocol.ts` at ws://localhost:8000/ws/audio.
+ *
+ *   npm run mock-backend
+ *   MOCK_SCENARIO=slow npm run mock-backend
+ *
+ * It accepts PCM16 frames and `speech_start` / `speech_end` (or `user_text`),
+ * then answers each turn with transcripts, `tts_start`, a synthesized PCM16
+ * voice and `tts_end`. It also keeps the session clock, applies top-ups,
+ * answers pings and honours `resume` after a reconnect.
+ *
+ * Scenarios (`MOCK_SCENARIO`, or `?scenario=` on the socket URL):
+ * - `normal` (default)
+ * - `slow` — replies start after 3 s and audio arrives in uneven bursts
+ * - `drop` — the connection dies mid-reply once per session, then resumes
+ * - `reject-resume` — drops like `drop` but refuses the resume
+ * - `malformed` — wrong protocol version, bad JSON, unknown and invalid messages
+ * - `short` — 70 s sessions, to reach the warning and expiry quickly
+ * - `server-close` — a normal close (1000) after the first reply
+ *
+ * No dependencies: the WebSocket framing below covers what browsers send.
+ */
+
+import { createHash, createHmac, randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_BACKEND_PORT || 8000);
+const PATH = "/ws/audio";
+const DEFAULT_SCENARIO = process.env.MOCK_SCENARIO || "normal";
+const SCENARIOS = ["normal", "slow", "drop", "reject-resume", "malformed", "short", "server-close"];
+const PAYMENT_TOKEN_SECRET = process.env.PAYMENT_TOKEN_SECRET || "dev-payment-token-secret";
+
+const PROTOCOL_VERSION = 1;
+const PCM16_FORMAT = "pcm16/16000";
+const SAMPLE_RATE = 16000;
+/* Audio per binary message, and how often one is sent (a little faster than real time) */
+const CHUNK_MS = 100;
+const CHUNK_INTERVAL_MS = 80;
+const CLOCK_INTERVAL_MS = 30000;
+const WARNING_MS = 60000;
+const EXPIRY_CLOSE_DELAY_MS = 5000;
+
+/* ────────────────────────────────────────────────────
+ *  WebSocket framing (RFC 6455, server side)
+ * ──────────────────────────────────────────────────── */
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const OPCODES = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+const encodeFrame = (opcode, payload) => {
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = payload.length;
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Wrap an upgraded socket. `onMessage` gets `(data, isBinary)` for every
+ * complete message; `onClose` fires once however the socket ends.
+ */
+const createConnection = (socket, { onMessage, onClose }) => {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentOpcode = 0;
+  let closed = false;
+
+  const write = (opcode, payload) => {
+    if (!closed && socket.writable) socket.write(encodeFrame(opcode, payload));
+  };
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    onClose();
+  };
+
+  const close = (code = 1000, reason = "") => {
+    if (closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    write(OPCODES.close, payload);
+    finish();
+    socket.end();
+  };
+
+  const handleFrame = (opcode, fin, payload) => {
+    if (opcode === OPCODES.close) {
+      close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+      return;
+    }
+    if (opcode === OPCODES.ping) {
+      write(OPCODES.pong, payload);
+      return;
+    }
+    if (opcode === OPCODES.pong) return;
+
+    if (opcode !== OPCODES.continuation) fragmentOpcode = opcode;
+    fragments.push(payload);
+    if (!fin) return;
+    const data = Buffer.concat(fragments);
+    fragments = [];
+    onMessage(fragmentOpcode === OPCODES.binary ? data : data.toString("utf8"), fragmentOpcode === OPCODES.binary);
+  };
+
+  socket.on("data", (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+      buffer = buffer.subarray(offset + length);
+      handleFrame(opcode, fin, payload);
+    }
+  });
+  socket.on("close", finish);
+  socket.on("error", finish);
+
+  return {
+    sendText: (text) => write(OPCODES.text, Buffer.from(text)),
+    sendBinary: (data) => write(OPCODES.binary, data),
+    close,
+    /** Kill the TCP connection without a close frame, like a network drop */
+    destroy: () => {
+      finish();
+      socket.destroy();
+    },
+  };
+};
+
+/* ────────────────────────────────────────────────────
+ *  Synthesized voice
+ * ──────────────────────────────────────────────────── */
+
+/**
+ * A vowel-ish buzz with syllable-rate loudness, long enough to "say" `text`.
+ */
+const synthesizeSpeech = (text) => {
+  const durationSec = Math.min(6, Math.max(1.2, text.length * 0.06));
+  const samples = Math.round(durationSec * SAMPLE_RATE);
+  const pcm = Buffer.alloc(samples * 2);
+  const pitch = 170 + Math.random() * 60;
+  let phase = 0;
+
+  for (let i = 0; i < samples; i++) {
+    const t = i / SAMPLE_RATE;
+    // Gentle pitch contour and ~4 syllables per second
+    phase += (2 * Math.PI * pitch * (1 + 0.08 * Math.sin(2 * Math.PI * 0.7 * t))) / SAMPLE_RATE;
+    const syllable = Math.max(0, Math.sin(Math.PI * 4 * t)) ** 0.6;
+    const edge = Math.min(1, t / 0.05, (durationSec - t) / 0.05);
+    const voice = 0.6 * Math.sin(phase) + 0.25 * Math.sin(2 * phase) + 0.15 * Math.sin(3 * phase);
+    pcm.writeInt16LE(Math.round(voice * syllable * edge * 0.3 * 32767), i * 2);
+  }
+  return pcm;
+};
+
+const REPLIES = [
+  "Hi! This is the mock backend. Everything you say comes back as this little tune.",
+  "I'm only pretending to listen, but the audio pipeline is real.",
+  "Try talking over me to test barge-in.",
+  "That's a good point. Tell me more.",
+];
+
+/* ────────────────────────────────────────────────────
+ *  Sessions (kept across connections for `resume`)
+ * ──────────────────────────────────────────────────── */
+
+/** session_id → { resumeToken, expiresAt, warned, expired, topUps, dropped } */
+const sessions = new Map();
+
+/* Read the payment token like the real backend would; a bad signature only warns */
+const readPaymentToken = (token) => {
+  const [body, sig] = String(token || "").split(".");
+  if (!body) return null;
+  if (createHmac("sha256", PAYMENT_TOKEN_SECRET).update(body).digest("hex") !== sig) {
+    console.warn("[mock] payment token signature does not match PAYMENT_TOKEN_SECRET; accepting anyway");
+  }
+  try {
+    return JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+};
+
+/* ────────────────────────────────────────────────────
+ *  Call handling
+ * ──────────────────────────────────────────────────── */
+
+const handleCall = (conn, scenario, log) => {
+  let session = null;
+  let sessionId = null;
+  let speaking = false;
+  let speechBytes = 0;
+  let framesReceived = 0;
+  let turn = null;            // { cancelled } while a reply is being sent
+  let replies = 0;
+  let clockTimer = null;
+  let watchTimer = null;
+
+  const send = (message) => conn.sendText(JSON.stringify(message));
+
+  const sendClock = () => {
+    if (session) send({ type: "session_clock", expires_at: session.expiresAt, server_time: Date.now() });
+  };
+
+  const watchClock = () => {
+    if (!session || session.expired) return;
+    const remaining = session.expiresAt - Date.now();
+    if (remaining <= 0) {
+      session.expired = true;
+      log("session expired");
+      send({ type: "session_expired", reason: "time_up" });
+      setTimeout(() => conn.close(1000, "session expired"), EXPIRY_CLOSE_DELAY_MS);
+    } else if (remaining <= WARNING_MS && !session.warned) {
+      session.warned = true;
+      send({ type: "time_warning", remaining_ms: remaining });
+    }
+  };
+
+  const startSession = () => {
+    session.resumeToken = randomUUID();
+    send({ type: "session", resume_token: session.resumeToken });
+    sendClock();
+    clockTimer = setInterval(sendClock, CLOCK_INTERVAL_MS);
+    watchTimer = setInterval(watchClock, 1000);
+
+    if (scenario === "malformed") sendMalformed();
+  };
+
+  const sendMalformed = () => {
+    const junk = [
+      "this is not json{",
+      JSON.stringify({ type: "mystery_message" }),
+      JSON.stringify({ type: "transcript", role: "narrator", text: 42 }),
+      JSON.stringify([1, 2, 3]),
+      JSON.stringify({ type: "error", code: "mock_error", message: "Scripted server error" }),
+    ];
+    junk.forEach((text, i) => setTimeout(() => conn.sendText(text), 500 * (i + 1)));
+  };
+
+  const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  /* Answer one user turn: user caption, then the spoken reply */
+  const reply = async (userText, userTurnId) => {
+    if (turn) turn.cancelled = true;
+    const current = { cancelled: false };
+    turn = current;
+    replies += 1;
+
+    send({ type: "transcript", role: "user", turn_id: userTurnId, text: userText, final: true });
+    await wait(scenario === "slow" ? 3000 : 400);
+    if (current.cancelled) return;
+
+    const text = REPLIES[(replies - 1) % REPLIES.length];
+    const turnId = randomUUID();
+    const pcm = synthesizeSpeech(text);
+    const chunkBytes = (SAMPLE_RATE * 2 * CHUNK_MS) / 1000;
+    const chunkCount = Math.ceil(pcm.length / chunkBytes);
+    const dropAt = (scenario === "drop" || scenario === "reject-resume") && !session.dropped
+      ? Math.floor(chunkCount / 2)
+      : -1;
+
+    send({ type: "tts_start" });
+    for (let i = 0; i < chunkCount; i++) {
+      if (current.cancelled) return;
+      if (i === dropAt) {
+        session.dropped = true;
+        log("dropping the connection mid-reply");
+        conn.destroy();
+        return;
+      }
+      conn.sendBinary(pcm.subarray(i * chunkBytes, (i + 1) * chunkBytes));
+
+      // Captions grow with the audio
+      const words = text.split(" ");
+      const shown = words.slice(0, Math.ceil(((i + 1) / chunkCount) * words.length)).join(" ");
+      send({ type: "transcript", role: "assistant", turn_id: turnId, text: shown, final: i === chunkCount - 1 });
+
+      const gap = scenario === "slow"
+        ? (Math.random() < 0.2 ? 400 + Math.random() * 400 : 20 + Math.random() * 60)
+        : CHUNK_INTERVAL_MS;
+      await wait(gap);
+    }
+    if (current.cancelled) return;
+    send({ type: "tts_end" });
+    turn = null;
+
+    if (scenario === "server-close" && replies === 1) {
+      log("closing normally after the first reply");
+      setTimeout(() => conn.close(1000, "scripted close"), 1000);
+    }
+  };
+
+  const handleControl = (message) => {
+    switch (message.type) {
+      case "hello": {
+        const offered = message.capabilities?.audio_out ?? [];
+        if (!offered.includes(PCM16_FORMAT)) log("client did not offer pcm16 audio; sending it anyway");
+        send({
+          type: "hello_ack",
+          protocol_version: scenario === "malformed" ? PROTOCOL_VERSION + 98 : PROTOCOL_VERSION,
+          audio_in: PCM16_FORMAT,
+          audio_out: PCM16_FORMAT,
+        });
+        break;
+      }
+      case "session_start": {
+        sessionId = message.session_id;
+        const payment = readPaymentToken(message.payment_token);
+        const minutes = Number(payment?.minutes) || 5;
+        session = {
+          resumeToken: null,
+          expiresAt: Date.now() + (scenario === "short" ? 70000 : minutes * 60000),
+          warned: false,
+          expired: false,
+          topUps: new Set(),
+          dropped: false,
+        };
+        sessions.set(sessionId, session);
+        log(`session_start ${sessionId} (${message.creator_id}, ${minutes} min, ${message.language ?? "default language"})`);
+        startSession();
+        break;
+      }
+      case "resume": {
+        const known = sessions.get(message.session_id);
+        if (scenario === "reject-resume" || !known || known.resumeToken !== message.resume_token || known.expired) {
+          log(`resume rejected for ${message.session_id}`);
+          send({ type: "resume_rejected", reason: "unknown_session" });
+          setTimeout(() => conn.close(1000, "resume rejected"), 100);
+          break;
+        }
+        sessionId = message.session_id;
+        session = known;
+        log(`resumed ${sessionId}`);
+        startSession();
+        break;
+      }
+      case "speech_start":
+        speaking = true;
+        speechBytes = 0;
+        break;
+      case "speech_end":
+        if (!speaking) break;
+        speaking = false;
+        reply(`(${(speechBytes / (SAMPLE_RATE * 2)).toFixed(1)} s of speech)`, randomUUID());
+        break;
+      case "user_text":
+        reply(message.text, message.turn_id);
+        break;
+      case "interrupt":
+        if (turn) {
+          turn.cancelled = true;
+          turn = null;
+          log(`interrupted after ${message.played_ms} ms`);
+          send({ type: "tts_end" });
+        }
+        break;
+      case "extend_session": {
+        if (!session) break;
+        const payment = readPaymentToken(message.payment_token);
+        if (!payment) {
+          send({ type: "extend_rejected", reason: "invalid_payment" });
+          break;
+        }
+        // Re-sent after a reconnect: apply once, acknowledge again
+        const addedMs = (Number(payment.minutes) || 0) * 60000;
+        if (!session.topUps.has(message.payment_token)) {
+          session.topUps.add(message.payment_token);
+          session.expiresAt += addedMs;
+          session.warned = false;
+        }
+        send({ type: "session_extended", added_ms: addedMs });
+        sendClock();
+        break;
+      }
+      case "ping":
+        send({ type: "pong", id: message.id });
+        break;
+      default:
+        log(`ignoring ${message.type}`);
+    }
+  };
+
+  return {
+    onMessage: (data, isBinary) => {
+      if (isBinary) {
+        framesReceived += 1;
+        if (speaking) speechBytes += data.length;
+        return;
+      }
+      let message;
+      try {
+        message = JSON.parse(data);
+      } catch {
+        log(`bad JSON from client: ${data.slice(0, 80)}`);
+        return;
+      }
+      handleControl(message);
+    },
+    onClose: () => {
+      if (turn) turn.cancelled = true;
+      clearInterval(clockTimer);
+      clearInterval(watchTimer);
+      log(`closed after ${framesReceived} audio frames`);
+    },
+  };
+};
+
+/* ────────────────────────────────────────────────────
+ *  Server
+ * ──────────────────────────────────────────────────── */
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end(`Mock voice backend: connect a WebSocket to ${PATH}\n`);
+});
+
+let connectionCount = 0;
+
+server.on("upgrade", (req, socket) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const key = req.headers["sec-websocket-key"];
+  if (url.pathname !== PATH || !key) {
+    socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+    return;
+  }
+
+  const requested = url.searchParams.get("scenario");
+  const scenario = requested && SCENARIOS.includes(requested) ? requested : DEFAULT_SCENARIO;
+  const id = ++connectionCount;
+  const log = (text) => console.info(`[mock #${id}] ${text}`);
+
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${createHash("sha1").update(key + WS_GUID).digest("base64")}`,
+      "\r\n",
+    ].join("\r\n"),
+  );
+  log(`connected (${scenario})`);
+
+  let call = null;
+  const conn = createConnection(socket, {
+    onMessage: (data, isBinary) => call.onMessage(data, isBinary),
+    onClose: () => call.onClose(),
+  });
+  call = handleCall(conn, scenario, log);
+});
+
+if (!SCENARIOS.includes(DEFAULT_SCENARIO)) {
+  console.error(`Unknown MOCK_SCENARIO "${DEFAULT_SCENARIO}"; expected one of ${SCENARIOS.join(", ")}`);
+  process.exit(1);
+}
+
+server.listen(PORT, () => {
+  console.info(`[mock] voice backend on ws://localhost:${PORT}${PATH} (scenario: ${DEFAULT_SCENARIO})`);
+});
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getAppBaseUrl, getDeliveryProvider, normalizeEmail, toLocalPath } from "@/lib/auth";
+import { issueMagicLinkToken } from "@/lib/auth/challenges";
+import type { AuthErrorCode } from "@/lib/auth/types";
+
+/**
+ * Email a single-use sign-in link. Body: `{ "email": string, "returnTo"?: string }`
+ * where `returnTo` is a same-site path to land on after signing in.
+ */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { email?: unknown; returnTo?: unknown } | null;
+  const email = typeof body?.email === "string" ? normalizeEmail(body.email) : null;
+  if (!email) {
+    return NextResponse.json({ error: "invalid_email" satisfies AuthErrorCode }, { status: 400 });
+  }
+
+  const token = issueMagicLinkToken(email);
+  if (!token) {
+    return NextResponse.json({ error: "too_soon" satisfies AuthErrorCode }, { status: 429 });
+  }
+
+  const url = new URL("/api/auth/magic-link/verify", getAppBaseUrl());
+  url.searchParams.set("token", token);
+  const returnTo = typeof body?.returnTo === "string" ? toLocalPath(body.returnTo) : null;
+  if (returnTo) url.searchParams.set("returnTo", returnTo);
+
+  try {
+    await getDeliveryProvider().sendMagicLink(email, url.toString());
+  } catch (err) {
+    console.error("[auth] magic link delivery failed", err);
+    return NextResponse.json({ error: "delivery_failed" satisfies AuthErrorCode }, { status: 502 });
+  }
+
+  return NextResponse.json({ email });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { consumeMagicLinkToken } from "@/lib/auth/challenges";
+import { setSessionCookie, userFor } from "@/lib/auth/session";
+import { toLocalPath } from "@/lib/auth";
+
+/**
+ * Landing URL of the emailed link: signs in and returns to the creator page
+ * it was requested from, which picks up `?signedIn=1` and opens the mic-check
+ * step.
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const token = params.get("token");
+  const email = token ? consumeMagicLinkToken(token) : null;
+
+  const returnTo = params.get("returnTo");
+  const home = new URL((returnTo && toLocalPath(returnTo)) || "/", request.url);
+  if (!email) {
+    home.searchParams.set("signInError", "link");
+    return NextResponse.redirect(home);
+  }
+
+  home.searchParams.set("signedIn", "1");
+  const response = NextResponse.redirect(home);
+  setSessionCookie(response, userFor("email", email));
+  return response;
+}
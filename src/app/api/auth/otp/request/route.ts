@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getDeliveryProvider, normalizePhone } from "@/lib/auth";
+import { issueOtp } from "@/lib/auth/challenges";
+import type { AuthErrorCode } from "@/lib/auth/types";
+
+/**
+ * Send a one-time code by SMS. Body: `{ "phone": string }`.
+ */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { phone?: unknown } | null;
+  const phone = typeof body?.phone === "string" ? normalizePhone(body.phone) : null;
+  if (!phone) {
+    return NextResponse.json({ error: "invalid_phone" satisfies AuthErrorCode }, { status: 400 });
+  }
+
+  const code = issueOtp(phone);
+  if (!code) {
+    return NextResponse.json({ error: "too_soon" satisfies AuthErrorCode }, { status: 429 });
+  }
+
+  try {
+    await getDeliveryProvider().sendOtp(phone, code);
+  } catch (err) {
+    console.error("[auth] OTP delivery failed", err);
+    return NextResponse.json({ error: "delivery_failed" satisfies AuthErrorCode }, { status: 502 });
+  }
+
+  return NextResponse.json({ phone });
+}
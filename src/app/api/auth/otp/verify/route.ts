@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { normalizePhone } from "@/lib/auth";
+import { consumeOtp } from "@/lib/auth/challenges";
+import { setSessionCookie, userFor } from "@/lib/auth/session";
+import type { AuthErrorCode } from "@/lib/auth/types";
+
+/**
+ * Check a one-time code and sign in. Body: `{ "phone", "code" }`.
+ */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { phone?: unknown; code?: unknown } | null;
+  const phone = typeof body?.phone === "string" ? normalizePhone(body.phone) : null;
+  const code = typeof body?.code === "string" ? body.code.trim() : "";
+  if (!phone || !/^\d{6}$/.test(code)) {
+    return NextResponse.json({ error: "invalid_code" satisfies AuthErrorCode }, { status: 400 });
+  }
+
+  if (!consumeOtp(phone, code)) {
+    return NextResponse.json({ error: "wrong_code" satisfies AuthErrorCode }, { status: 401 });
+  }
+
+  const user = userFor("phone", phone);
+  const response = NextResponse.json({ user });
+  setSessionCookie(response, user);
+  return response;
+}
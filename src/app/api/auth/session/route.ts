@@ -0,0 +1,12 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { SessionResponse } from "@/lib/auth";
+import { SESSION_COOKIE, readSession, signCallToken } from "@/lib/auth/session";
+
+/**
+ * Current user plus a fresh call token for `session_start`.
+ */
+export async function GET(request: NextRequest) {
+  const user = readSession(request.cookies.get(SESSION_COOKIE)?.value);
+  const response: SessionResponse = { user, callToken: user ? signCallToken(user) : null };
+  return NextResponse.json(response, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { clearSessionCookie } from "@/lib/auth/session";
+
+export async function POST() {
+  const response = NextResponse.json({ user: null });
+  clearSessionCookie(response);
+  return response;
+}
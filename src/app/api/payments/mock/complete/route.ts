@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getPaymentProvider, type PaymentErrorCode } from "@/lib/payments";
+import { completeMockPayment, type MockOutcome } from "@/lib/payments/mockProvider";
+
+const OUTCOMES: MockOutcome[] = ["success", "pending", "failed"];
+
+/**
+ * Stand-in for the gateway's hosted checkout when the mock provider is
+ * active. Body: `{ "orderId", "outcome"?: "success" | "pending" | "failed" }`.
+ */
+export async function POST(request: Request) {
+  if (getPaymentProvider().id !== "mock") {
+    return NextResponse.json({ error: "not_found" satisfies PaymentErrorCode }, { status: 404 });
+  }
+
+  const body = (await request.json().catch(() => null)) as { orderId?: unknown; outcome?: unknown } | null;
+  const outcome = OUTCOMES.includes(body?.outcome as MockOutcome) ? (body!.outcome as MockOutcome) : "success";
+  const result = typeof body?.orderId === "string" ? completeMockPayment(body.orderId, outcome) : null;
+  if (!result) {
+    return NextResponse.json({ error: "unknown_order" satisfies PaymentErrorCode }, { status: 404 });
+  }
+
+  return NextResponse.json(result);
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { findTimeOption } from "@/lib/pricing";
+import { getCreator } from "@/lib/creators";
+import { getPaymentProvider, type CreateOrderResponse, type PaymentErrorCode } from "@/lib/payments";
+
+/**
+ * Create a gateway order for one of a creator's session lengths.
+ *
+ * Body: `{ "creator": string, "minutes": number }` — the price is looked up
+ * server-side.
+ */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { creator?: unknown; minutes?: unknown } | null;
+  const creator = typeof body?.creator === "string" ? await getCreator(body.creator) : null;
+  if (!creator) {
+    return NextResponse.json({ error: "unknown_creator" satisfies PaymentErrorCode }, { status: 400 });
+  }
+  const option = typeof body?.minutes === "number" ? findTimeOption(creator.timeOptions, body.minutes) : null;
+  if (!option) {
+    return NextResponse.json({ error: "unknown_length" satisfies PaymentErrorCode }, { status: 400 });
+  }
+
+  try {
+    const provider = getPaymentProvider();
+    const order = await provider.createOrder(option, creator.slug);
+    const response: CreateOrderResponse = {
+      provider: provider.id,
+      order,
+      config: provider.clientConfig(),
+    };
+    return NextResponse.json(response);
+  } catch (err) {
+    console.error("[payments] create order failed", err);
+    return NextResponse.json({ error: "order_failed" satisfies PaymentErrorCode }, { status: 502 });
+  }
+}
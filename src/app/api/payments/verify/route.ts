@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { getPaymentProvider, type PaymentErrorCode, type VerifyPaymentResponse } from "@/lib/payments";
+import { signPaymentToken } from "@/lib/payments/token";
+
+/**
+ * Verify a completed checkout and issue a payment token for the call.
+ *
+ * Body: `{ "orderId", "paymentId", "signature" }` as returned by the gateway.
+ */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const { orderId, paymentId, signature } = body ?? {};
+  if (typeof orderId !== "string" || typeof paymentId !== "string" || typeof signature !== "string") {
+    return NextResponse.json({ error: "invalid_payment" satisfies PaymentErrorCode }, { status: 400 });
+  }
+
+  let response: VerifyPaymentResponse;
+  try {
+    const result = await getPaymentProvider().verifyPayment({ orderId, paymentId, signature });
+
+    if (result.status === "paid" && result.order) {
+      response = {
+        status: "paid",
+        minutes: result.order.minutes,
+        paymentToken: signPaymentToken({
+          orderId,
+          paymentId,
+          minutes: result.order.minutes,
+          creator: result.order.creator,
+        }),
+      };
+    } else if (result.status === "pending") {
+      response = { status: "pending" };
+    } else {
+      response = { status: "failed", ...(result.reason ? { reason: result.reason } : {}) };
+    }
+  } catch (err) {
+    console.error("[payments] verify failed", err);
+    return NextResponse.json({ error: "verify_failed" satisfies PaymentErrorCode }, { status: 502 });
+  }
+
+  return NextResponse.json(response);
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import {
+  MAX_BATCH_BYTES,
+  allowTelemetryRequest,
+  getTelemetrySink,
+  parseTelemetryBatch,
+  telemetryClientAddress,
+} from "@/lib/telemetry";
+
+/* The body as text, or null once it passes `maxBytes` (read no further) */
+const readBodyText = async (request: Request, maxBytes: number): Promise<string | null> => {
+  const declared = Number(request.headers.get("content-length"));
+  if (declared > maxBytes) return null;
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+/**
+ * Store a batch of client events. Body: `{ "events": TelemetryRecord[] }`.
+ * Malformed events are dropped; `sendBeacon` ignores the response anyway.
+ * Bodies over `MAX_BATCH_BYTES` and clients over the rate limit are refused
+ * before anything is parsed.
+ */
+export async function POST(request: Request) {
+  if (!allowTelemetryRequest(telemetryClientAddress(request.headers))) {
+    return NextResponse.json({ error: "rate_limited" }, { status: 429 });
+  }
+
+  // Beacons may arrive as text/plain, so parse the body ourselves
+  const text = await readBodyText(request, MAX_BATCH_BYTES).catch(() => null);
+  if (text === null) {
+    return NextResponse.json({ error: "too_large" }, { status: 413 });
+  }
+  let body: unknown = null;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // reported as an invalid batch below
+  }
+  const events = parseTelemetryBatch(body);
+  if (!events) {
+    return NextResponse.json({ error: "invalid_batch" }, { status: 400 });
+  }
+
+  if (events.length > 0) {
+    const receivedAt = Date.now();
+    try {
+      await getTelemetrySink().write(events.map((event) => ({ ...event, receivedAt })));
+    } catch (err) {
+      console.error("[telemetry] could not store events", err);
+      return NextResponse.json({ error: "store_failed" }, { status: 500 });
+    }
+  }
+
+  return NextResponse.json({ accepted: events.length });
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import type { VerifyPaymentInput } from "@/lib/payments/types";
+import type { Creator } from "@/lib/creators/types";
+import { startCheckout, verifyCheckout, type CheckoutError, type CheckoutResult } from "../utils/checkout";
+import { useI18n } from "./I18nProvider";
+
+type SheetPhase = "idle" | "processing" | "pending" | "failed" | "cancelled";
+
+interface AddTimeSheetProps {
+  creator: Creator;
+  /** Called with a verified payment token; the call stays up throughout */
+  onPaid: (paymentToken: string, minutes: number) => void;
+  /** Whether a checkout is open or pending, so the sheet stays up until it settles */
+  onBusyChange: (busy: boolean) => void;
+  onClose: () => void;
+}
+
+/**
+ * In-call top-up: pick a duration, pay, and hand the token back to the call.
+ */
+export default function AddTimeSheet({ creator, onPaid, onBusyChange, onClose }: AddTimeSheetProps) {
+  const { messages, formatPrice, formatSessionLength } = useI18n();
+  const { addTime: m, common } = messages;
+  const [selectedMinutes, setSelectedMinutes] = useState<number | null>(null);
+  const [phase, setPhase] = useState<SheetPhase>("idle");
+  const [error, setError] = useState<CheckoutError | null>(null);
+  const [pendingPayment, setPendingPayment] = useState<VerifyPaymentInput | null>(null);
+
+  const handleResult = (result: CheckoutResult) => {
+    // A pending payment may still go through, so it keeps the sheet too
+    onBusyChange(result.status === "pending");
+    switch (result.status) {
+      case "paid":
+        setPhase("idle");
+        onPaid(result.paymentToken, result.minutes);
+        break;
+      case "pending":
+        setPendingPayment(result.payment);
+        setPhase("pending");
+        break;
+      case "failed":
+        setError(result.error);
+        setPhase("failed");
+        break;
+      case "cancelled":
+        setPhase("cancelled");
+        break;
+    }
+  };
+
+  const handlePay = async () => {
+    if (!selectedMinutes || phase === "processing") return;
+    setPhase("processing");
+    setError(null);
+    onBusyChange(true);
+    const description = m.checkoutDescription(formatSessionLength(selectedMinutes), creator.name);
+    handleResult(await startCheckout(creator, selectedMinutes, description));
+  };
+
+  const handleCheckPending = async () => {
+    if (!pendingPayment) return;
+    setPhase("processing");
+    onBusyChange(true);
+    handleResult(await verifyCheckout(pendingPayment));
+  };
+
+  const canPay = selectedMinutes !== null && phase !== "processing" && phase !== "pending";
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center">
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-md"
+        onClick={() => phase !== "processing" && onClose()}
+      />
+
+      <div
+        role="dialog"
+        aria-label={m.dialogLabel}
+        className="relative w-full sm:max-w-md rounded-t-3xl sm:rounded-3xl bg-black/85 backdrop-blur-3xl border border-white/10 shadow-2xl px-7 pt-8 pb-9 sm:px-10 animate-fade-in-up"
+      >
+        <h3 className="text-[24px] sm:text-[28px] font-black text-white tracking-tight leading-tight mb-1">
+          {m.title}
+        </h3>
+        <p className="text-[13px] text-white/50 font-medium leading-snug mb-6">
+          {m.subtitle}
+        </p>
+
+        <div className="grid grid-cols-6 gap-2 sm:gap-2.5">
+          {creator.timeOptions.map((opt, index) => {
+            const isSelected = selectedMinutes === opt.minutes;
+            const colSpan = index < 3 ? "col-span-2" : "col-span-3";
+            return (
+              <button
+                key={opt.minutes}
+                onClick={() => phase !== "processing" && setSelectedMinutes(opt.minutes)}
+                className={`
+                  ${colSpan} h-14 sm:h-16 rounded-xl sm:rounded-2xl border transition-all duration-300
+                  flex flex-col items-center justify-center gap-0.5
+                  ${isSelected
+                    ? "border-white bg-white/10 text-white shadow-lg"
+                    : "border-white/20 bg-white/[0.02] text-white/60 hover:border-white/40 hover:text-white/80"
+                  }
+                `}
+              >
+                <span className="text-[10px] sm:text-[11px] uppercase tracking-widest font-bold">+{formatSessionLength(opt.minutes)}</span>
+                <span className="text-[13px] sm:text-sm font-bold leading-none">{formatPrice(opt.price)}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {phase !== "idle" && phase !== "processing" && (
+          <div
+            role="status"
+            className={`mt-4 rounded-xl border px-4 py-3 text-[13px] leading-snug ${phase === "pending" ? "border-amber-300/30 bg-amber-300/10 text-amber-100" : "border-rose-400/30 bg-rose-500/10 text-rose-100"}`}
+          >
+            {phase === "pending" && (
+              <div className="flex items-center justify-between gap-3">
+                <span>{common.paymentPending}</span>
+                <button onClick={handleCheckPending} className="shrink-0 font-bold underline underline-offset-4">
+                  {common.checkAgain}
+                </button>
+              </div>
+            )}
+            {phase === "failed" && (error ? common.paymentErrors[error] : common.paymentFailed)}
+            {phase === "cancelled" && common.paymentCancelled}
+          </div>
+        )}
+
+        <button
+          onClick={handlePay}
+          disabled={!canPay}
+          className={`
+            w-full h-14 rounded-2xl font-bold text-base transition-all duration-500 mt-4
+            ${canPay
+              ? "bg-gradient-to-r from-pink-500 via-red-500 to-orange-500 text-white shadow-[0_8px_32px_rgba(255,80,80,0.35)] hover:scale-[1.02] active:scale-100"
+              : "bg-white/8 text-white/30 border border-white/10 cursor-not-allowed"
+            }
+          `}
+        >
+          {phase === "processing" ? common.processing : m.pay}
+        </button>
+      </div>
+    </div>
+  );
+}
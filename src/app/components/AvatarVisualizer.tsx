@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+export interface VoiceLevels {
+  /** Mic level, 0 – 1 */
+  user: number;
+  /** TTS output level, 0 – 1 */
+  assistant: number;
+}
+
+interface AvatarVisualizerProps {
+  /** Polled once per drawn frame; must not trigger React renders */
+  getLevels: () => VoiceLevels;
+}
+
+/* Redraw at most this often; levels are sampled no faster */
+const FRAME_INTERVAL_MS = 1000 / 30;
+/* Smoothing per frame: fast attack, slow release */
+const ATTACK = 0.5;
+const RELEASE = 0.12;
+/* Ring geometry as fractions of the canvas half-size */
+const BASE_RADIUS = 0.78;
+const MAX_SWELL = 0.2;
+const WAVE_POINTS = 96;
+
+const COLORS = {
+  user: "103, 232, 249", // cyan-300
+  assistant: "253, 164, 175", // rose-300
+};
+
+const smooth = (current: number, target: number) =>
+  current + (target - current) * (target > current ? ATTACK : RELEASE);
+
+/**
+ * Voice ring drawn around the call avatar: cyan for the user, rose for the
+ * assistant. Draws on a canvas from requestAnimationFrame so audio callbacks
+ * never re-render React. With reduced motion the ring only fades in and out.
+ */
+export default function AvatarVisualizer({ getLevels }: AvatarVisualizerProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const motionQuery = window.matchMedia("(prefers-reduced-motion: reduce)");
+    let reducedMotion = motionQuery.matches;
+    const handleMotionChange = (e: MediaQueryListEvent) => {
+      reducedMotion = e.matches;
+    };
+    motionQuery.addEventListener("change", handleMotionChange);
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(canvas.clientWidth * dpr);
+      canvas.height = Math.round(canvas.clientHeight * dpr);
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    const levels = { user: 0, assistant: 0 };
+    let frameId = 0;
+    let lastDraw = 0;
+
+    const drawRing = (role: keyof VoiceLevels, level: number, time: number) => {
+      if (level < 0.01) return;
+      const half = Math.min(canvas.width, canvas.height) / 2;
+      const cx = canvas.width / 2;
+      const cy = canvas.height / 2;
+      const base = half * BASE_RADIUS;
+
+      ctx.beginPath();
+      if (reducedMotion) {
+        ctx.arc(cx, cy, base, 0, Math.PI * 2);
+      } else {
+        // Opposite spin per voice so both can be told apart when overlapping
+        const phase = (role === "user" ? -1 : 1) * time * 0.002;
+        for (let i = 0; i <= WAVE_POINTS; i++) {
+          const angle = (i / WAVE_POINTS) * Math.PI * 2;
+          const wave = 0.6 + 0.25 * Math.sin(angle * 5 + phase) + 0.15 * Math.sin(angle * 9 - phase * 1.7);
+          const r = base + half * MAX_SWELL * level * wave;
+          const x = cx + Math.cos(angle) * r;
+          const y = cy + Math.sin(angle) * r;
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.closePath();
+      }
+
+      ctx.lineWidth = Math.max(2, half * 0.025);
+      ctx.strokeStyle = `rgba(${COLORS[role]}, ${Math.min(0.25 + level, 0.95)})`;
+      ctx.shadowColor = `rgba(${COLORS[role]}, 0.8)`;
+      ctx.shadowBlur = half * 0.08 * level;
+      ctx.stroke();
+    };
+
+    const draw = (time: number) => {
+      frameId = requestAnimationFrame(draw);
+      if (time - lastDraw < FRAME_INTERVAL_MS) return;
+      lastDraw = time;
+
+      const target = getLevels();
+      levels.user = smooth(levels.user, target.user);
+      levels.assistant = smooth(levels.assistant, target.assistant);
+
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawRing("assistant", levels.assistant, time);
+      drawRing("user", levels.user, time);
+    };
+    frameId = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      observer.disconnect();
+      motionQuery.removeEventListener("change", handleMotionChange);
+    };
+  }, [getLevels]);
+
+  return <canvas ref={canvasRef} aria-hidden="true" className="absolute inset-[-22%] w-[144%] h-[144%] pointer-events-none" />;
+}
@@ -0,0 +1,1456 @@
+"use client";
+
+import { useState, useEffect, useReducer, useRef, useCallback, type CSSProperties } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { startStreamingMic, type BargeInOptions, type StreamingMicHandle } from "../utils/audioUtils";
+import { connectCallSocket, type CallSocketHandle } from "../utils/callSocket";
+import { isExtendRejectedReason, type ExtendRejectedReason } from "../utils/protocol";
+import { INITIAL_CALL_STATE, transition, type CallPhase, type FlowState } from "../utils/callMachine";
+import { clearCallSession, loadCallSession, saveCallSession, updateCallSession } from "../utils/callSessionStore";
+import { applyTranscriptMessage, formatTranscript, type TranscriptEntry } from "../utils/transcript";
+import { createPlaybackEngine, type PlaybackEngine, type PlaybackMetrics } from "../utils/playbackEngine";
+import { startCheckout, verifyCheckout, type CheckoutError, type CheckoutResult } from "../utils/checkout";
+import { fetchSession, signOut } from "../utils/authClient";
+import { isCallRecordingSupported, startCallRecorder, type CallRecorder } from "../utils/callRecorder";
+import { saveRecording } from "../utils/recordingStore";
+import { loadPreferredMic, savePreferredMic } from "../utils/micDevices";
+import { loadConversationLanguage, saveConversationLanguage } from "../utils/conversationLanguage";
+import {
+  OPUS_FORMAT,
+  PCM16_FORMAT,
+  PCM16_ONLY,
+  audioBytesPerSecond,
+  createAudioDownlink,
+  detectAudioFormats,
+  type AudioFormat,
+  type AudioFormatSupport,
+} from "../utils/audioCodec";
+import { createQualityMonitor, type ConnectionStats } from "../utils/connectionQuality";
+import { flushTelemetry, trackEvent } from "../utils/telemetry";
+import { createDebugTrace, type DebugTrace } from "../utils/debugTrace";
+import TranscriptPanel from "./TranscriptPanel";
+import SignInStep from "./SignInStep";
+import AddTimeSheet from "./AddTimeSheet";
+import MicCheckStep from "./MicCheckStep";
+import AvatarVisualizer, { type VoiceLevels } from "./AvatarVisualizer";
+import SignalBars from "./SignalBars";
+import DebugHud from "./DebugHud";
+import LanguageSwitcher from "./LanguageSwitcher";
+import { useI18n } from "./I18nProvider";
+import type { VerifyPaymentInput } from "@/lib/payments/types";
+import type { AuthUser } from "@/lib/auth/types";
+import type { Creator } from "@/lib/creators/types";
+import type { CallEndReason } from "@/lib/telemetry/types";
+import { SPOKEN_LANGUAGE_TAGS, type Locale } from "@/lib/i18n";
+
+type BargeInSensitivity = "off" | "low" | "medium" | "high";
+type PaymentPhase = "idle" | "processing" | "pending" | "failed" | "cancelled";
+type TopUpStatus = "idle" | "applying" | "added" | "rejected";
+
+/* How long the assistant may keep talking after `session_expired` */
+const EXPIRY_GRACE_MS = 4000;
+/* How long the one-minute warning stays on screen */
+const TIME_WARNING_VISIBLE_MS = 8000;
+/* Below this many seconds the Add Time button turns into a prompt */
+const LOW_TIME_PROMPT_SECONDS = 120;
+/* How long the top-up result stays on screen */
+const TOP_UP_NOTICE_MS = 4000;
+
+/* Lower sensitivity needs louder, longer speech so speaker echo can't interrupt */
+const BARGE_IN_PRESETS: Record<BargeInSensitivity, BargeInOptions | null> = {
+  off: null,
+  low: { minSpeechMs: 500, thresholdScale: 4 },
+  medium: { minSpeechMs: 300, thresholdScale: 2.5 },
+  high: { minSpeechMs: 200, thresholdScale: 1.6 },
+};
+
+interface CreatorSessionProps {
+  creator: Creator;
+}
+
+/**
+ * Hero, sign-in, payment and live call for one creator.
+ */
+export default function CreatorSession({ creator }: CreatorSessionProps) {
+  const { locale, messages, formatPrice, formatSessionLength } = useI18n();
+  const { session: m, call: callText, common } = messages;
+  /* Flow step and call phase; change only through `dispatch` (see `../utils/callMachine`) */
+  const [callState, dispatch] = useReducer(transition, INITIAL_CALL_STATE);
+  const flowState = callState.flow;
+  const callPhase: CallPhase = callState.flow === "active" ? callState.phase : "connecting";
+  const [selectedMinutes, setSelectedMinutes] = useState<number | null>(null);
+  /* Seconds left; null while a rejoined call waits for the server's clock */
+  const [timeLeft, setTimeLeft] = useState<number | null>(0);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isWsConnected, setIsWsConnected] = useState(false);
+  const [isVisible, setIsVisible] = useState(false);
+  const [bargeInSensitivity, setBargeInSensitivity] = useState<BargeInSensitivity>("medium");
+  // Kept after the call ends so the last transcript can still be copied
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [showCaptions, setShowCaptions] = useState(true);
+  /* Typing instead of talking: chosen by the user or forced by a mic failure */
+  const [textOnly, setTextOnly] = useState(false);
+  const [micNotice, setMicNotice] = useState<"blocked" | "failed" | null>(null);
+  const [transcriptCopied, setTranscriptCopied] = useState(false);
+  const [playbackMetrics, setPlaybackMetrics] = useState<PlaybackMetrics | null>(null);
+  const [connectionStats, setConnectionStats] = useState<ConnectionStats | null>(null);
+  /* Set per call when the page was opened with `?debug=1` */
+  const [debugTrace, setDebugTrace] = useState<DebugTrace | null>(null);
+  const [paymentPhase, setPaymentPhase] = useState<PaymentPhase>("idle");
+  const [paymentError, setPaymentError] = useState<CheckoutError | null>(null);
+  const [pendingPayment, setPendingPayment] = useState<VerifyPaymentInput | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [sessionClock, setSessionClock] = useState<{ expiresAt: number; offsetMs: number } | null>(null);
+  const [showTimeWarning, setShowTimeWarning] = useState(false);
+  const [showAddTime, setShowAddTime] = useState(false);
+  const [topUpStatus, setTopUpStatus] = useState<TopUpStatus>("idle");
+  /* Minutes added, or why the server refused (null: no reason the UI explains) */
+  const [topUpNotice, setTopUpNotice] = useState<
+    { addedMinutes: number } | { reason: ExtendRejectedReason | null } | null
+  >(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingSaved, setRecordingSaved] = useState(false);
+  const [micDeviceId, setMicDeviceId] = useState<string | null>(() =>
+    typeof window === "undefined" ? null : loadPreferredMic(),
+  );
+  /* Explicit choice of call language; until then the call follows the UI */
+  const [chosenLanguage, setChosenLanguage] = useState<Locale | null>(() =>
+    typeof window === "undefined" ? null : loadConversationLanguage(),
+  );
+  const conversationLanguage = chosenLanguage ?? locale;
+
+  const mousePosRef = useRef({ x: 0, y: 0 });
+  const mouseTargetRef = useRef({ x: 0, y: 0 });
+  const avatarRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  /* ── Audio streaming refs ── */
+  const wsRef = useRef<CallSocketHandle | null>(null);
+  const micControllerRef = useRef<StreamingMicHandle | null>(null);
+  const playbackRef = useRef<PlaybackEngine | null>(null);
+  const endCallRef = useRef<() => void>(() => {});
+  const callEndingRef = useRef(false);
+  const paymentTokenRef = useRef<string | null>(null);
+  const callTokenRef = useRef<string | null>(null);
+  /* Id of the paid session, and a resume token when rejoining after a reload */
+  const sessionIdRef = useRef<string | null>(null);
+  const rejoinTokenRef = useRef<string | null>(null);
+  /* Paid top-up not yet acknowledged by the server; re-sent after a reconnect */
+  const pendingTopUpRef = useRef<string | null>(null);
+  /* A top-up checkout is open, so the call must not close its sheet */
+  const topUpBusyRef = useRef(false);
+  /* Top-up that settled after its call ended; it starts a new call instead */
+  const lateTopUpRef = useRef<{ paymentToken: string; minutes: number } | null>(null);
+  const recorderRef = useRef<CallRecorder | null>(null);
+  const ttsActiveRef = useRef(false);
+  const ttsInterruptedRef = useRef(false);
+  const bargeInSensitivityRef = useRef<BargeInSensitivity>("medium");
+  const micDeviceIdRef = useRef<string | null>(null);
+  const conversationLanguageRef = useRef<Locale>(conversationLanguage);
+  const textOnlyRef = useRef(false);
+  const debugEnabledRef = useRef(false);
+  /* Telemetry: previous flow step, call start, and the turn awaiting a reply */
+  const prevFlowStateRef = useRef<FlowState>("idle");
+  const callStartedAtRef = useRef<number | null>(null);
+  const replyWaitRef = useRef<{ since: number; input: "speech" | "text" } | null>(null);
+  /* Starts the mic on the live socket; replaced by each call */
+  const startMicRef = useRef<() => void>(() => {});
+  /* Formats offered in `hello`; PCM16 until detection finishes */
+  const audioFormatsRef = useRef<AudioFormatSupport>(PCM16_ONLY);
+  /* Latest mic level; read by the avatar visualizer, never rendered directly */
+  const micLevelRef = useRef(0);
+
+  /* ── Restore sign-in (and land on the mic check after a magic link) ── */
+  useEffect(() => {
+    let cancelled = false;
+    fetchSession().then(({ user: sessionUser }) => {
+      if (cancelled) return;
+      setUser(sessionUser);
+
+      const params = new URLSearchParams(window.location.search);
+      if (params.has("signedIn") || params.has("signInError")) {
+        if (sessionUser && params.has("signedIn")) dispatch({ type: "signed_in" });
+        if (params.has("signInError")) dispatch({ type: "sign_in_failed" });
+        params.delete("signedIn");
+        params.delete("signInError");
+        const query = params.toString();
+        window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /* ── Entrance animation + mouse-follow parallax ── */
+  useEffect(() => {
+    const timeout = setTimeout(() => setIsVisible(true), 100);
+
+    const handleMouseMove = (e: MouseEvent) => {
+      mouseTargetRef.current = {
+        x: (e.clientX / window.innerWidth - 0.5) * 20,
+        y: (e.clientY / window.innerHeight - 0.5) * 20,
+      };
+    };
+
+    let frameId: number;
+    const animate = () => {
+      mousePosRef.current.x +=
+        (mouseTargetRef.current.x - mousePosRef.current.x) * 0.1;
+      mousePosRef.current.y +=
+        (mouseTargetRef.current.y - mousePosRef.current.y) * 0.1;
+
+      avatarRefs.current.forEach((el, i) => {
+        if (!el) return;
+        const m = i === 0 ? 0.5 : -1;
+        el.style.transform = `translate3d(${mousePosRef.current.x * m}px, ${mousePosRef.current.y * m}px, 0)`;
+      });
+
+      frameId = requestAnimationFrame(animate);
+    };
+
+    window.addEventListener("mousemove", handleMouseMove);
+    animate();
+
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener("mousemove", handleMouseMove);
+      cancelAnimationFrame(frameId);
+    };
+  }, []);
+
+  useEffect(() => {
+    bargeInSensitivityRef.current = bargeInSensitivity;
+  }, [bargeInSensitivity]);
+
+  useEffect(() => {
+    micDeviceIdRef.current = micDeviceId;
+  }, [micDeviceId]);
+
+  useEffect(() => {
+    conversationLanguageRef.current = conversationLanguage;
+  }, [conversationLanguage]);
+
+  useEffect(() => {
+    textOnlyRef.current = textOnly;
+  }, [textOnly]);
+
+  /* ── Funnel: every step from "Start Session" to the call ── */
+  useEffect(() => {
+    const from = prevFlowStateRef.current;
+    if (from === flowState) return;
+    prevFlowStateRef.current = flowState;
+    trackEvent({ name: "flow_state", creator: creator.slug, from, to: flowState });
+  }, [flowState, creator]);
+
+  /* Once per call, whichever way it ends first */
+  const trackCallEnd = useCallback(
+    (reason: CallEndReason) => {
+      if (callStartedAtRef.current === null) return;
+      trackEvent({ name: "call_end", creator: creator.slug, reason, durationMs: Date.now() - callStartedAtRef.current });
+      callStartedAtRef.current = null;
+    },
+    [creator],
+  );
+
+  useEffect(() => {
+    debugEnabledRef.current = new URLSearchParams(window.location.search).get("debug") === "1";
+  }, []);
+
+  /* ── Opus support, known well before anyone pays ── */
+  useEffect(() => {
+    detectAudioFormats().then((formats) => {
+      audioFormatsRef.current = formats;
+    });
+  }, []);
+
+  /* ── Rejoin a call this tab was in before a reload ── */
+  useEffect(() => {
+    const saved = loadCallSession(creator.slug);
+    if (!saved) return;
+    paymentTokenRef.current = saved.paymentToken;
+    callTokenRef.current = saved.authToken;
+    sessionIdRef.current = saved.sessionId;
+    rejoinTokenRef.current = saved.resumeToken;
+    setTimeLeft(saved.expiresAt === null ? null : Math.max(0, Math.ceil((saved.expiresAt - Date.now()) / 1000)));
+    dispatch({ type: "rejoin" });
+  }, [creator]);
+
+  /* ── WebSocket audio streaming when active ── */
+  useEffect(() => {
+    if (flowState !== "active" || !paymentTokenRef.current || !sessionIdRef.current) return;
+    const sessionId = sessionIdRef.current;
+
+    setIsWsConnected(false);
+    setIsSpeaking(false);
+    setTranscript([]);
+    setPlaybackMetrics(null);
+    setConnectionStats(null);
+    setSessionClock(null);
+    setShowTimeWarning(false);
+    setTextOnly(false);
+    setMicNotice(null);
+    textOnlyRef.current = false;
+    callEndingRef.current = false;
+    callStartedAtRef.current = Date.now();
+    replyWaitRef.current = null;
+
+    let warningTimer: ReturnType<typeof setTimeout> | null = null;
+    let topUpTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const showTopUpResult = (status: TopUpStatus, notice: NonNullable<typeof topUpNotice>) => {
+      pendingTopUpRef.current = null;
+      setTopUpStatus(status);
+      setTopUpNotice(notice);
+      if (topUpTimer) clearTimeout(topUpTimer);
+      topUpTimer = setTimeout(() => {
+        setTopUpStatus("idle");
+        setTopUpNotice(null);
+      }, TOP_UP_NOTICE_MS);
+    };
+
+    const playback = createPlaybackEngine({ sampleRate: 16000, preRollMs: 120 });
+    playbackRef.current = playback;
+
+    // Surface jitter-buffer health to the call UI
+    const metricsTimer = setInterval(() => setPlaybackMetrics(playback.getMetrics()), 500);
+
+    const trace = debugEnabledRef.current ? createDebugTrace({ getPlaybackMetrics: playback.getMetrics }) : null;
+    setDebugTrace(trace);
+
+    /* Opus failed in one direction: stop offering it and let the server pick again */
+    const dropOpus = (direction: keyof AudioFormatSupport) => {
+      const formats = audioFormatsRef.current;
+      if (!formats[direction].includes(OPUS_FORMAT)) return;
+      audioFormatsRef.current = { ...formats, [direction]: [PCM16_FORMAT] };
+      wsRef.current?.renegotiate(audioFormatsRef.current);
+    };
+    const handleDecoderError = () => dropOpus("audioOut");
+
+    // Both directions are PCM16 until `hello_ack` says otherwise
+    let downlink = createAudioDownlink(PCM16_FORMAT, playback, handleDecoderError);
+    let uplinkFormat: AudioFormat = PCM16_FORMAT;
+
+    const resetTtsState = () => {
+      downlink.reset();
+      playback.stop();
+      ttsActiveRef.current = false;
+      ttsInterruptedRef.current = false;
+      setIsSpeaking(false);
+    };
+
+    /* User spoke over the assistant: cut playback and tell the server where */
+    const handleBargeIn = () => {
+      if (!ttsActiveRef.current) return;
+      const playedMs = playback.getTurnPlayedMs();
+      downlink.reset();
+      playback.stop();
+      ttsActiveRef.current = false;
+      // Chunks still in flight for this turn are dropped until the next one starts
+      ttsInterruptedRef.current = true;
+      wsRef.current?.sendControl({ type: "interrupt", played_ms: playedMs });
+      setIsSpeaking(false);
+      dispatch({ type: "reply_finished" });
+    };
+
+    let micStarting = false;
+    /* Time is up: stop listening, let the current reply finish briefly, then end */
+    const handleSessionExpired = () => {
+      if (callEndingRef.current) return;
+      callEndingRef.current = true;
+      trackCallEnd("expired");
+      if (micControllerRef.current) {
+        micControllerRef.current.stop();
+        micControllerRef.current = null;
+      }
+      dispatch({ type: "time_up" });
+      if (!topUpBusyRef.current) setShowAddTime(false);
+
+      const grace = new Promise<void>((resolve) => setTimeout(resolve, EXPIRY_GRACE_MS));
+      const finished = ttsActiveRef.current ? playback.endTurn() : Promise.resolve();
+      Promise.race([finished, grace]).then(() => {
+        if (wsRef.current === ws) endCallRef.current();
+      });
+    };
+
+    const startMic = async (ws: CallSocketHandle) => {
+      micStarting = true;
+      try {
+        const controller = await startStreamingMic(ws, (level) => {
+          // Audio level only drives the visual indicator when not in TTS playback
+          micLevelRef.current = ttsActiveRef.current ? 0 : level;
+        }, {
+          energyThreshold: 0.01,
+          silenceMs: 600,
+          onSpeechEnd: () => {
+            // User stopped speaking; stay on "listening" until model responds
+            // Only count when model is NOT speaking (prevents echo triggering)
+            if (!ttsActiveRef.current) {
+              replyWaitRef.current = { since: performance.now(), input: "speech" };
+            }
+          },
+          isPlaybackActive: () => ttsActiveRef.current,
+          getBargeInOptions: () => BARGE_IN_PRESETS[bargeInSensitivityRef.current],
+          onBargeIn: handleBargeIn,
+          deviceId: micDeviceIdRef.current,
+          getUplinkFormat: () => uplinkFormat,
+          onEncoderError: () => dropOpus("audioIn"),
+          onFrame: trace ? trace.recordMicFrame : undefined,
+        });
+        // The call may have ended, or switched to typing, while the mic was starting
+        if (wsRef.current !== ws || textOnlyRef.current) {
+          controller.stop();
+          return;
+        }
+        micControllerRef.current = controller;
+        if (controller.stream) recorderRef.current?.addMicStream(controller.stream);
+      } catch (err) {
+        // The call is paid for: keep it going as text rather than leave it mute
+        if (wsRef.current !== ws) return;
+        const denied = err instanceof DOMException && (err.name === "NotAllowedError" || err.name === "SecurityError");
+        trackEvent({
+          name: "mic_start_failed",
+          creator: creator.slug,
+          error: err instanceof Error ? err.name : "Unknown",
+        });
+        textOnlyRef.current = true;
+        setTextOnly(true);
+        setMicNotice(denied ? "blocked" : "failed");
+      } finally {
+        micStarting = false;
+      }
+    };
+
+    let connectStartedAt = performance.now();
+    const ws = connectCallSocket({
+      url: creator.wsUrl,
+      sessionId,
+      paymentToken: paymentTokenRef.current,
+      authToken: callTokenRef.current,
+      resumeToken: rejoinTokenRef.current,
+      creator: { id: creator.slug, voiceId: creator.voiceId, personaId: creator.personaId },
+      language: SPOKEN_LANGUAGE_TAGS[conversationLanguageRef.current],
+      audioFormats: audioFormatsRef.current,
+      onTrace: trace ? ({ direction, text }) => trace.recordControl(direction, text) : undefined,
+      onResumeToken: (resumeToken) => updateCallSession(sessionId, { resumeToken }),
+      onNegotiated: ({ audioIn, audioOut }) => {
+        uplinkFormat = audioIn;
+        if (audioOut !== downlink.format) {
+          downlink.close();
+          downlink = createAudioDownlink(audioOut, playback, handleDecoderError);
+        }
+      },
+      onOpen: ({ resumed }) => {
+        trackEvent({
+          name: "ws_connect",
+          creator: creator.slug,
+          durationMs: Math.round(performance.now() - connectStartedAt),
+          resumed,
+        });
+
+        // A resumed session starts a fresh turn: late audio from before the drop is gone
+        resetTtsState();
+        // Numbers from before a drop describe a connection that no longer exists
+        quality.reset();
+        setIsWsConnected(true);
+        dispatch({ type: "connected" });
+
+        // A top-up paid while offline (or unacknowledged before the drop) is applied now
+        if (pendingTopUpRef.current) {
+          ws.sendControl({ type: "extend_session", payment_token: pendingTopUpRef.current });
+        }
+
+        // The mic keeps running across reconnects; frames are dropped while offline
+        if (!micControllerRef.current && !micStarting && !textOnlyRef.current) {
+          startMic(ws);
+        }
+      },
+      onStateChange: (state) => {
+        // Ignore the "closed" from our own teardown or after expiry
+        if (wsRef.current !== ws || callEndingRef.current) return;
+
+        if (state === "reconnecting") {
+          connectStartedAt = performance.now();
+          resetTtsState();
+          setIsWsConnected(false);
+          dispatch({ type: "connection_lost" });
+        } else if (state === "failed" || state === "closed") {
+          trackCallEnd(state === "failed" ? "dropped" : "server_closed");
+          // Nothing left to rejoin
+          clearCallSession();
+          if (micControllerRef.current) {
+            micControllerRef.current.stop();
+            micControllerRef.current = null;
+          }
+          resetTtsState();
+          setIsWsConnected(false);
+          dispatch({ type: "connection_failed" });
+        }
+      },
+      onAudio: (data) => {
+        if (ttsInterruptedRef.current) return;
+        quality.recordAudioChunk();
+        if (replyWaitRef.current) {
+          const { since, input } = replyWaitRef.current;
+          replyWaitRef.current = null;
+          trackEvent({
+            name: "response_latency",
+            creator: creator.slug,
+            latencyMs: Math.round(performance.now() - since),
+            input,
+          });
+        }
+        ttsActiveRef.current = true;
+        setIsSpeaking(true);
+        dispatch({ type: "reply_started" });
+        downlink.push(data);
+      },
+      onControl: (msg) => {
+        switch (msg.type) {
+          case "tts_start":
+            ttsInterruptedRef.current = false;
+            quality.markTurnBoundary();
+            playback.startTurn();
+            ttsActiveRef.current = true;
+            setIsSpeaking(true);
+            dispatch({ type: "reply_started" });
+            break;
+          case "tts_end": {
+            quality.markTurnBoundary();
+            if (ttsInterruptedRef.current) {
+              // End of the turn we cut off; playback was already stopped
+              ttsInterruptedRef.current = false;
+              break;
+            }
+            // Wait for the last packets to decode and all scheduled audio
+            // buffers to finish playing before transitioning back to listening
+            downlink.flush().then(() => playback.endTurn()).then(() => {
+              ttsActiveRef.current = false;
+              setIsSpeaking(false);
+              dispatch({ type: "reply_finished" });
+            });
+            break;
+          }
+          case "transcript":
+            setTranscript((prev) => applyTranscriptMessage(prev, msg));
+            break;
+          case "session_clock":
+            setSessionClock({ expiresAt: msg.expires_at, offsetMs: msg.server_time - Date.now() });
+            updateCallSession(sessionId, { expiresAt: msg.expires_at - (msg.server_time - Date.now()) });
+            break;
+          case "time_warning":
+            setShowTimeWarning(true);
+            if (warningTimer) clearTimeout(warningTimer);
+            warningTimer = setTimeout(() => setShowTimeWarning(false), TIME_WARNING_VISIBLE_MS);
+            break;
+          case "session_expired":
+            handleSessionExpired();
+            break;
+          case "session_extended":
+            setShowTimeWarning(false);
+            showTopUpResult("added", { addedMinutes: Math.round(msg.added_ms / 60000) });
+            break;
+          case "extend_rejected":
+            showTopUpResult("rejected", { reason: isExtendRejectedReason(msg.reason) ? msg.reason : null });
+            break;
+          case "pong":
+            quality.handlePong(msg.id);
+            break;
+        }
+      },
+    });
+    wsRef.current = ws;
+    startMicRef.current = () => {
+      if (!micControllerRef.current && !micStarting) startMic(ws);
+    };
+
+    const quality = createQualityMonitor(ws, {
+      getUplinkBytesPerSecond: () => audioBytesPerSecond(uplinkFormat),
+      onUpdate: setConnectionStats,
+    });
+
+    // Closing the tab mid-call: record why the call ended before the page goes
+    const handlePageHide = () => {
+      trackCallEnd("page_closed");
+      flushTelemetry({ beacon: true });
+    };
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      trackCallEnd("page_closed");
+      // Cleanup on flowState change / unmount
+      if (micControllerRef.current) {
+        micControllerRef.current.stop();
+        micControllerRef.current = null;
+      }
+      micLevelRef.current = 0;
+      wsRef.current = null;
+      startMicRef.current = () => {};
+      ws.close();
+      ttsActiveRef.current = false;
+      clearInterval(metricsTimer);
+      quality.stop();
+      trace?.stop();
+      if (warningTimer) clearTimeout(warningTimer);
+      if (topUpTimer) clearTimeout(topUpTimer);
+      playbackRef.current = null;
+      downlink.close();
+      playback.close();
+    };
+  }, [flowState, creator, trackCallEnd]);
+
+  // Signed-in users skip identification
+  const handleStartTalking = () => {
+    setRecordingSaved(false);
+    dispatch({ type: "start", signedIn: user !== null });
+  };
+
+  const handleSignedIn = (signedInUser: AuthUser) => {
+    setUser(signedInUser);
+    dispatch({ type: "signed_in" });
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    setUser(null);
+    dispatch({ type: "signed_out" });
+  };
+
+  const handleMicDeviceChange = useCallback((deviceId: string | null) => {
+    setMicDeviceId(deviceId);
+    savePreferredMic(deviceId);
+  }, []);
+
+  const handleLanguageChange = (language: Locale) => {
+    setChosenLanguage(language);
+    saveConversationLanguage(language);
+  };
+
+  const resetPayment = () => {
+    setPaymentPhase("idle");
+    setPaymentError(null);
+    setPendingPayment(null);
+  };
+
+  const handleSelectTime = (minutes: number) => {
+    if (paymentPhase === "processing") return;
+    setSelectedMinutes(minutes);
+    resetPayment();
+  };
+
+  const handleCloseModal = () => {
+    if (paymentPhase === "processing") return;
+    resetPayment();
+    dispatch({ type: "cancel" });
+  };
+
+  /* The call starts only with a server-verified payment token */
+  const startPaidSession = useCallback(
+    async (paymentToken: string, minutes: number) => {
+      paymentTokenRef.current = paymentToken;
+      callTokenRef.current = user ? (await fetchSession()).callToken : null;
+      sessionIdRef.current = crypto.randomUUID();
+      rejoinTokenRef.current = null;
+      saveCallSession({
+        creator: creator.slug,
+        sessionId: sessionIdRef.current,
+        paymentToken,
+        authToken: callTokenRef.current,
+        resumeToken: null,
+        expiresAt: null,
+      });
+      setTimeLeft(Math.round(minutes * 60));
+      dispatch({ type: "paid" });
+    },
+    [user, creator],
+  );
+
+  const handleCheckoutResult = async (result: CheckoutResult) => {
+    switch (result.status) {
+      case "paid":
+        resetPayment();
+        await startPaidSession(result.paymentToken, result.minutes);
+        break;
+      case "pending":
+        setPendingPayment(result.payment);
+        setPaymentPhase("pending");
+        break;
+      case "failed":
+        setPaymentError(result.error);
+        setPaymentPhase("failed");
+        break;
+      case "cancelled":
+        setPaymentPhase("cancelled");
+        break;
+    }
+  };
+
+  const handlePayAndStart = async () => {
+    if (!selectedMinutes || paymentPhase === "processing") return;
+    setPaymentPhase("processing");
+    setPaymentError(null);
+    const description = m.checkoutDescription(formatSessionLength(selectedMinutes), creator.name);
+    await handleCheckoutResult(await startCheckout(creator, selectedMinutes, description));
+  };
+
+  const handleCheckPendingPayment = async () => {
+    if (!pendingPayment) return;
+    setPaymentPhase("processing");
+    await handleCheckoutResult(await verifyCheckout(pendingPayment));
+  };
+
+  /* Top-up paid mid-call: hand the token to the live session, no reconnect */
+  const handleTopUpPaid = (paymentToken: string, minutes: number) => {
+    setShowAddTime(false);
+    // The call ran out (or was ended) while the checkout was open: the paid
+    // time goes to a new call rather than being lost
+    if (callEndingRef.current || !sessionIdRef.current) {
+      if (sessionIdRef.current) {
+        lateTopUpRef.current = { paymentToken, minutes };
+        endCallRef.current();
+      } else {
+        startPaidSession(paymentToken, minutes);
+      }
+      return;
+    }
+
+    pendingTopUpRef.current = paymentToken;
+    setTopUpStatus("applying");
+    setTopUpNotice(null);
+    // If the socket is down this is dropped and re-sent on reconnect
+    wsRef.current?.sendControl({ type: "extend_session", payment_token: paymentToken });
+  };
+
+  /* Typed turn: show it right away; the server's echo reuses the turn id */
+  const handleSendText = (text: string) => {
+    const turnId = crypto.randomUUID();
+    replyWaitRef.current = { since: performance.now(), input: "text" };
+    wsRef.current?.sendControl({ type: "user_text", turn_id: turnId, text });
+    setTranscript((prev) =>
+      applyTranscriptMessage(prev, { type: "transcript", role: "user", turn_id: turnId, text, final: true }),
+    );
+  };
+
+  const handleToggleTextOnly = () => {
+    if (textOnly) {
+      textOnlyRef.current = false;
+      setTextOnly(false);
+      setMicNotice(null);
+      startMicRef.current();
+      return;
+    }
+    textOnlyRef.current = true;
+    setTextOnly(true);
+    if (micControllerRef.current) {
+      micControllerRef.current.stop();
+      micControllerRef.current = null;
+    }
+    micLevelRef.current = 0;
+  };
+
+  const getDebugContext = useCallback(
+    () => ({ creator: creator.slug, callPhase, connection: connectionStats, textOnly }),
+    [creator, callPhase, connectionStats, textOnly],
+  );
+
+  const handleCopyLastTranscript = async () => {
+    try {
+      await navigator.clipboard.writeText(formatTranscript(transcript, { user: messages.transcript.you, assistant: creator.name }));
+      setTranscriptCopied(true);
+      setTimeout(() => setTranscriptCopied(false), 1500);
+    } catch {
+      // clipboard unavailable (insecure context / denied)
+    }
+  };
+
+  const getVoiceLevels = useCallback(
+    (): VoiceLevels => ({
+      user: micLevelRef.current,
+      assistant: playbackRef.current?.getOutputLevel() ?? 0,
+    }),
+    [],
+  );
+
+  /* ── Opt-in call recording (mic + TTS), saved locally ── */
+  const startCallRecording = () => {
+    if (recorderRef.current || !playbackRef.current) return;
+    try {
+      recorderRef.current = startCallRecorder(
+        playbackRef.current.getOutputNode(),
+        micControllerRef.current?.stream ?? null,
+      );
+      setIsRecording(true);
+    } catch {
+      // Recording is optional; the call carries on without it
+    }
+  };
+
+  const stopCallRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+
+    const audio = await recorder.stop();
+    if (!audio) return;
+    try {
+      await saveRecording({
+        creatorSlug: creator.slug,
+        creatorName: creator.name,
+        startedAt: recorder.startedAt,
+        durationMs: Date.now() - recorder.startedAt,
+        mimeType: recorder.mimeType,
+        audio,
+      });
+      setRecordingSaved(true);
+    } catch {
+      // Storage full or unavailable: the prompt to view the recording stays hidden
+    }
+  }, [creator]);
+
+  const handleEndCall = useCallback(() => {
+    trackCallEnd("user");
+
+    // Finish the recording before the mic and playback go away
+    stopCallRecording();
+
+    // Stop mic streaming
+    if (micControllerRef.current) {
+      micControllerRef.current.stop();
+      micControllerRef.current = null;
+    }
+
+    // Close WebSocket
+    if (wsRef.current) {
+      const ws = wsRef.current;
+      wsRef.current = null;
+      ws.close();
+    }
+
+    if (playbackRef.current) {
+      playbackRef.current.stop();
+    }
+    ttsActiveRef.current = false;
+
+    paymentTokenRef.current = null;
+    callTokenRef.current = null;
+    sessionIdRef.current = null;
+    rejoinTokenRef.current = null;
+    pendingTopUpRef.current = null;
+    clearCallSession();
+    dispatch({ type: "end" });
+    setTimeLeft(0);
+    setSelectedMinutes(null);
+    setSessionClock(null);
+    setShowTimeWarning(false);
+    if (!topUpBusyRef.current) setShowAddTime(false);
+    setTopUpStatus("idle");
+    setTopUpNotice(null);
+    setIsWsConnected(false);
+    setIsSpeaking(false);
+  }, [stopCallRecording, trackCallEnd]);
+
+  useEffect(() => {
+    endCallRef.current = handleEndCall;
+  }, [handleEndCall]);
+
+  /* ── A top-up that landed as its call ended starts the next call ── */
+  useEffect(() => {
+    const lateTopUp = lateTopUpRef.current;
+    if (flowState !== "idle" || !lateTopUp) return;
+    lateTopUpRef.current = null;
+    startPaidSession(lateTopUp.paymentToken, lateTopUp.minutes);
+  }, [flowState, startPaidSession]);
+
+  /* ── Display the server's clock; the server decides when time is up ── */
+  useEffect(() => {
+    if (flowState !== "active" || !sessionClock) return;
+
+    const update = () => {
+      const serverNow = Date.now() + sessionClock.offsetMs;
+      setTimeLeft(Math.max(0, Math.ceil((sessionClock.expiresAt - serverNow) / 1000)));
+    };
+    update();
+    const interval = setInterval(update, 250);
+
+    return () => clearInterval(interval);
+  }, [flowState, sessionClock]);
+
+  const callStatusLabel = callText.status[callPhase];
+
+  const canAddTime = callPhase !== "dropped" && callPhase !== "ending" && topUpStatus !== "applying";
+  const isLowOnTime = sessionClock !== null && timeLeft !== null && timeLeft <= LOW_TIME_PROMPT_SECONDS;
+
+  const timerMinutes = Math.floor((timeLeft ?? 0) / 60);
+  const timerSeconds = (timeLeft ?? 0) % 60;
+  const timerAriaLabel = `${timerMinutes.toString().padStart(2, "0")}:${timerSeconds.toString().padStart(2, "0")}`;
+
+  return (
+    <main className="relative min-h-screen w-full overflow-hidden bg-[#0F0F13] text-white font-sans selection:bg-rose-500/30">
+      {/* ── Background Blobs ── */}
+      <div className="absolute inset-0 pointer-events-none overflow-hidden">
+        <div
+          className="absolute top-[-10%] left-[-10%] w-[70vw] h-[70vw] bg-rose-500/20 blur-[100px] animate-blob mix-blend-screen"
+          style={{ borderRadius: "60% 40% 30% 70% / 60% 30% 70% 40%" }}
+        />
+        <div
+          className="absolute bottom-[-10%] right-[-10%] w-[60vw] h-[60vw] bg-indigo-500/20 blur-[100px] animate-blob animation-delay-2000 mix-blend-screen"
+          style={{ borderRadius: "30% 70% 70% 30% / 30% 30% 70% 70%" }}
+        />
+        <div
+          className="absolute top-[30%] left-[40%] w-[50vw] h-[50vw] bg-purple-500/20 blur-[120px] animate-blob animation-delay-4000 mix-blend-screen"
+          style={{ borderRadius: "50% 50% 20% 80% / 25% 80% 20% 75%" }}
+        />
+      </div>
+
+      {flowState !== "active" && (
+        <div className="absolute top-5 right-5 sm:top-8 sm:right-8 z-20">
+          <LanguageSwitcher />
+        </div>
+      )}
+
+      {/* ── Content ── */}
+      <div
+        className={`
+          relative z-10 w-full min-h-screen flex flex-col items-center justify-center px-6 sm:px-10 py-16 sm:py-20
+          transition-all duration-1000 ease-out
+          ${isVisible ? "opacity-100 scale-100" : "opacity-0 scale-95"}
+        `}
+      >
+        {flowState === "active" ? (
+          /* ── Active Call Interface (Minimal Redesign) ── */
+          <div className="w-full h-screen fixed inset-0 z-40 bg-[#0F0F13] flex flex-col items-center justify-center">
+            {/* Ambient Background Glow for Active Call */}
+            <div
+              className={`absolute inset-0 transition-opacity duration-1000 ${isSpeaking ? "opacity-100" : "opacity-40"}`}
+            >
+              <div className="absolute top-1/4 left-1/4 w-[50vw] h-[50vw] bg-rose-500/10 blur-[120px] rounded-full mix-blend-screen animate-pulse" />
+              <div className="absolute bottom-1/4 right-1/4 w-[40vw] h-[40vw] bg-indigo-500/10 blur-[100px] rounded-full mix-blend-screen" />
+            </div>
+
+            {/* Absolute Top Left Captions / Recording Toggles (Page Corner) */}
+            <div className="fixed top-6 left-6 sm:top-10 sm:left-10 flex items-center gap-2 z-50">
+              <button
+                onClick={() => setShowCaptions((v) => !v)}
+                className={`h-12 sm:h-14 px-4 sm:px-5 rounded-full border flex items-center justify-center text-xs sm:text-sm font-bold tracking-widest transition-colors duration-300 backdrop-blur-md
+                  ${showCaptions ? "bg-white/15 border-white/30 text-white" : "bg-white/5 border-white/10 text-white/50 hover:text-white/80"}
+                `}
+                aria-label={showCaptions ? callText.hideCaptions : callText.showCaptions}
+                aria-pressed={showCaptions}
+              >
+                CC
+              </button>
+
+              {isCallRecordingSupported() && (
+                <button
+                  onClick={() => (isRecording ? stopCallRecording() : startCallRecording())}
+                  className={`h-12 sm:h-14 px-4 sm:px-5 rounded-full border flex items-center justify-center gap-2 text-xs sm:text-sm font-bold tracking-widest transition-colors duration-300 backdrop-blur-md
+                    ${isRecording ? "bg-rose-500/20 border-rose-400/50 text-rose-100" : "bg-white/5 border-white/10 text-white/50 hover:text-white/80"}
+                  `}
+                  aria-label={isRecording ? callText.stopRecording : callText.recordCall}
+                  aria-pressed={isRecording}
+                >
+                  <span className={`w-2 h-2 rounded-full ${isRecording ? "bg-rose-400 animate-pulse" : "bg-white/40"}`} />
+                  REC
+                </button>
+              )}
+            </div>
+
+            {/* Absolute Top Right End Call Button (Page Corner) */}
+            <button
+              onClick={handleEndCall}
+              className="group fixed top-6 right-6 sm:top-10 sm:right-10 w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-white/5 border border-white/10 flex items-center justify-center hover:bg-rose-900/35 hover:border-rose-700/60 transition-colors duration-300 z-50 backdrop-blur-md"
+              aria-label={callText.endCall}
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="w-5 h-5 sm:w-6 sm:h-6 text-white/80 group-hover:text-rose-300 group-hover:rotate-90 transition-all duration-300 ease-out"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="18" y1="6" x2="6" y2="18" />
+                <line x1="6" y1="6" x2="18" y2="18" />
+              </svg>
+            </button>
+
+            {/* Central Minimal Avatar */}
+            <div className="relative z-10 flex flex-col items-center gap-4 sm:gap-6 animate-fade-in-up">
+              {/* Subtle Breathing Avatar */}
+              <div className="relative">
+                {/* Voice reactive glow */}
+                <div
+                  className={`absolute inset-[-10px] rounded-full bg-white/20 blur-xl transition-all duration-300 ease-out
+                    ${isSpeaking ? "scale-110 opacity-60" : "scale-90 opacity-0"}
+                  `}
+                />
+
+                {/* Live voice ring: user in cyan, assistant in rose */}
+                <AvatarVisualizer getLevels={getVoiceLevels} />
+
+                <div
+                  ref={(el) => {
+                    avatarRefs.current[0] = el;
+                  }}
+                  className={`relative w-[200px] h-[200px] sm:w-[280px] sm:h-[280px] rounded-full overflow-hidden shadow-2xl ring-1 ring-white/10 transition-transform duration-[2000ms]
+                    ${isSpeaking ? "scale-105" : "scale-100"}
+                  `}
+                >
+                  <Image
+                    src={creator.images.avatar}
+                    alt={creator.name}
+                    fill
+                    className="object-cover"
+                    priority
+                  />
+                  <div className="absolute inset-0 bg-black/20" />
+                </div>
+              </div>
+
+              {/* Minimal Text Status & Timer */}
+              <div className="text-center flex flex-col items-center gap-2 sm:gap-3">
+                <h3 className="text-2xl sm:text-3xl font-light text-white tracking-wide">
+                  {creator.name}
+                </h3>
+
+                <div className="inline-flex items-center justify-center gap-2">
+                  <div
+                    className={`w-1.5 h-1.5 rounded-full ${callPhase === "connecting" || callPhase === "reconnecting" ? "bg-amber-300 animate-pulse" : callPhase === "dropped" ? "bg-rose-400" : callPhase === "speaking" ? "bg-green-400 animate-pulse" : "bg-cyan-300"}`}
+                  />
+                  <span className="text-[11px] sm:text-xs text-white/65 uppercase tracking-[0.18em] font-semibold">
+                    {callStatusLabel}
+                  </span>
+                  {callPhase !== "dropped" && callPhase !== "ending" && (
+                    <SignalBars stats={connectionStats} connected={isWsConnected} />
+                  )}
+                </div>
+
+                {isWsConnected && connectionStats?.problem && (
+                  <div role="alert" className="max-w-[300px] rounded-2xl border border-amber-300/30 bg-amber-300/10 px-4 py-1.5 text-[12px] font-semibold text-amber-100 leading-snug">
+                    {callText.qualityWarnings[connectionStats.problem]}
+                  </div>
+                )}
+
+                {/* Enhanced Timer */}
+                <div className="mt-1 sm:mt-2 inline-flex flex-col items-center min-w-[170px] sm:min-w-[190px] rounded-2xl border border-white/15 bg-black/35 backdrop-blur-xl px-5 py-2.5 sm:px-6 sm:py-3 shadow-[0_10px_28px_rgba(0,0,0,0.4)]">
+                  <span className="text-[9px] sm:text-[10px] uppercase tracking-[0.22em] text-white/55 font-semibold">
+                    {callText.timeLeft}
+                  </span>
+                  {timeLeft === null ? (
+                    <span role="status" className="mt-1 text-[15px] sm:text-base font-semibold text-white/70 leading-[36px] sm:leading-[42px]">
+                      {callText.status.reconnecting}
+                    </span>
+                  ) : (
+                    <span className="countdown font-mono mt-1 text-[36px] sm:text-[42px] leading-none font-light tracking-[-0.03em] text-white">
+                      <span
+                        style={{ "--value": timerMinutes, "--digits": 2 } as CSSProperties}
+                        aria-live="polite"
+                        aria-label={timerAriaLabel}
+                      >
+                        {timerMinutes.toString().padStart(2, "0")}
+                      </span>
+                      :
+                      <span
+                        style={{ "--value": timerSeconds, "--digits": 2 } as CSSProperties}
+                        aria-live="polite"
+                        aria-label={timerAriaLabel}
+                      >
+                        {timerSeconds.toString().padStart(2, "0")}
+                      </span>
+                    </span>
+                  )}
+                </div>
+
+                {showTimeWarning && (
+                  <div role="alert" className="rounded-full border border-amber-300/30 bg-amber-300/10 px-4 py-1.5 text-[12px] font-semibold text-amber-100">
+                    {callText.oneMinuteLeft}
+                  </div>
+                )}
+
+                {/* Top-up */}
+                {topUpStatus === "applying" ? (
+                  <span role="status" className="text-[12px] font-semibold text-white/60">
+                    {callText.addingTime}
+                  </span>
+                ) : topUpNotice ? (
+                  <span
+                    role="status"
+                    className={`text-[12px] font-semibold ${topUpStatus === "added" ? "text-green-300" : "text-rose-300"}`}
+                  >
+                    {"addedMinutes" in topUpNotice
+                      ? callText.timeAdded(formatSessionLength(topUpNotice.addedMinutes))
+                      : topUpNotice.reason
+                        ? callText.topUpRejectedReasons[topUpNotice.reason]
+                        : callText.topUpRejected}
+                  </span>
+                ) : (
+                  canAddTime && (
+                    <button
+                      onClick={() => setShowAddTime(true)}
+                      className={`h-8 px-4 rounded-full border text-[12px] font-bold transition-colors duration-300
+                        ${isLowOnTime
+                          ? "border-amber-300/40 bg-amber-300/15 text-amber-100 hover:bg-amber-300/25"
+                          : "border-white/15 bg-white/5 text-white/60 hover:text-white"
+                        }
+                      `}
+                    >
+                      {isLowOnTime ? callText.runningLow : callText.addTime}
+                    </button>
+                  )
+                )}
+
+                {/* Playback jitter-buffer health */}
+                {playbackMetrics && playbackMetrics.chunks > 0 && (
+                  <span className="font-mono text-[10px] text-white/35 tracking-wide">
+                    {callText.playbackHealth(playbackMetrics.bufferedMs, playbackMetrics.underruns)}
+                  </span>
+                )}
+
+                {/* Barge-in sensitivity */}
+                <div className="mt-1 flex flex-col items-center gap-1.5">
+                  <span className="text-[9px] sm:text-[10px] uppercase tracking-[0.22em] text-white/45 font-semibold">
+                    {callText.interruptSensitivity}
+                  </span>
+                  <div className="inline-flex rounded-full border border-white/10 bg-white/5 p-0.5" role="radiogroup" aria-label={callText.interruptSensitivity}>
+                    {(Object.keys(BARGE_IN_PRESETS) as BargeInSensitivity[]).map((level) => (
+                      <button
+                        key={level}
+                        role="radio"
+                        aria-checked={bargeInSensitivity === level}
+                        onClick={() => setBargeInSensitivity(level)}
+                        className={`h-7 px-3 rounded-full text-[11px] font-semibold transition-colors duration-300 ${bargeInSensitivity === level ? "bg-white text-black" : "text-white/55 hover:text-white/80"}`}
+                      >
+                        {callText.bargeIn[level]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {callPhase === "dropped" && (
+                  <div className="mt-2 flex flex-col items-center gap-3 max-w-[280px]">
+                    <p className="text-[13px] text-white/60 leading-snug">
+                      {callText.droppedMessage}
+                    </p>
+                    <button
+                      onClick={handleEndCall}
+                      className="h-11 px-6 rounded-full bg-white text-black text-sm font-bold hover:scale-105 transition-all duration-300"
+                    >
+                      {callText.backHome}
+                    </button>
+                  </div>
+                )}
+
+                {callPhase !== "dropped" && callPhase !== "ending" && (
+                  <button
+                    onClick={handleToggleTextOnly}
+                    className="text-[12px] font-semibold text-white/55 hover:text-white transition-colors duration-300"
+                  >
+                    {textOnly ? callText.useMicrophone : callText.typeInstead}
+                  </button>
+                )}
+
+                {micNotice && (
+                  <p role="alert" className="max-w-[300px] text-[12px] text-amber-100/90 leading-snug">
+                    {micNotice === "blocked" ? callText.micBlocked : callText.micFailed}
+                  </p>
+                )}
+
+                {(showCaptions || textOnly) && (
+                  <div className="mt-2 w-[88vw] max-w-md">
+                    <TranscriptPanel
+                      entries={transcript}
+                      assistantName={creator.name}
+                      onSendText={handleSendText}
+                      canSend={isWsConnected && callPhase !== "ending"}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {debugTrace && <DebugHud trace={debugTrace} getContext={getDebugContext} />}
+
+          </div>
+        ) : (
+          /* ── Idle Hero ── */
+          <div className="relative w-full max-w-6xl mx-auto flex flex-col md:flex-row items-center justify-center md:justify-between gap-12 md:gap-20 px-2 sm:px-0">
+            {/* Text Content */}
+            <div className="relative z-20 flex flex-col items-center md:items-start text-center md:text-left gap-0">
+              <h2 className="text-[11px] sm:text-sm md:text-base text-rose-300 font-bold tracking-[0.18em] sm:tracking-[0.22em] uppercase mb-5 sm:mb-6 animate-fade-in-up">
+                • {creator.role}
+              </h2>
+
+              <h1 className="text-[3.5rem] sm:text-7xl md:text-8xl font-black tracking-tighter leading-[0.88] mb-8 sm:mb-10 md:mb-12">
+                <span className="block text-transparent bg-clip-text bg-gradient-to-r from-white to-white/50">
+                  {creator.name}.
+                </span>
+              </h1>
+
+              {/* Desktop CTA */}
+              <div className="animate-fade-in-up shrink-0 hidden md:block w-full sm:w-auto">
+                <button
+                  onClick={handleStartTalking}
+                  className="group relative inline-flex items-center justify-center rounded-full bg-white text-black font-bold text-sm sm:text-base tracking-wide w-full sm:w-56 h-14 sm:h-[58px] shadow-[0_0_40px_rgba(255,255,255,0.25)] hover:shadow-[0_0_60px_rgba(255,255,255,0.45)] hover:scale-105 transition-all duration-300"
+                >
+                  <span className="flex items-center justify-center gap-3">
+                    {m.startSession}
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      className="w-5 h-5 transition-transform duration-300 group-hover:translate-x-1"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <path d="M5 12h14" />
+                      <path d="m12 5 7 7-7 7" />
+                    </svg>
+                  </span>
+                </button>
+              </div>
+
+              {transcript.length > 0 && (
+                <button
+                  onClick={handleCopyLastTranscript}
+                  className="mt-5 text-[12px] sm:text-[13px] font-semibold text-white/50 hover:text-white underline underline-offset-4 decoration-white/20 transition-colors duration-300"
+                >
+                  {transcriptCopied ? m.transcriptCopied : m.copyTranscript}
+                </button>
+              )}
+
+              {recordingSaved && (
+                <Link
+                  href="/history"
+                  className="mt-3 text-[12px] sm:text-[13px] font-semibold text-white/50 hover:text-white underline underline-offset-4 decoration-white/20 transition-colors duration-300"
+                >
+                  {m.recordingSaved}
+                </Link>
+              )}
+            </div>
+
+            {/* Image */}
+            <div className="relative w-72 h-72 sm:w-[340px] sm:h-[380px] md:w-[480px] md:h-[580px] shrink-0">
+              <div
+                ref={(el) => {
+                  avatarRefs.current[1] = el;
+                }}
+                className="relative w-full h-full overflow-hidden shadow-2xl hover:scale-[1.02] transition-transform duration-700 will-change-transform"
+                style={{ borderRadius: "30% 70% 70% 30% / 30% 30% 70% 70%" }}
+              >
+                <Image
+                  src={creator.images.hero}
+                  alt={creator.name}
+                  fill
+                  className="object-cover scale-110"
+                  priority
+                />
+                <div className="absolute inset-0 bg-gradient-to-t from-black/50 via-transparent to-transparent opacity-60" />
+              </div>
+
+              {/* Floating Decorative Elements */}
+              <div
+                className="absolute -top-8 -right-8 sm:-top-12 sm:-right-12 w-16 h-16 sm:w-24 sm:h-24 bg-white/10 backdrop-blur-md border border-white/20 z-20 animate-float"
+                style={{ borderRadius: "50% 50% 50% 50% / 50% 50% 50% 50%" }}
+              />
+              <div
+                className="absolute bottom-20 -left-10 sm:-left-16 w-20 h-20 sm:w-32 sm:h-32 bg-rose-500/20 backdrop-blur-md border border-rose-500/20 z-20 animate-float animation-delay-2000"
+                style={{ borderRadius: "60% 40% 30% 70% / 60% 30% 70% 40%" }}
+              />
+            </div>
+
+            {/* Mobile CTA */}
+            <div className="animate-fade-in-up md:hidden w-full flex justify-center z-30">
+              <button
+                onClick={handleStartTalking}
+                className="group relative inline-flex items-center justify-center rounded-full bg-white text-black font-bold text-sm tracking-wide w-52 h-14 shadow-[0_0_40px_rgba(255,255,255,0.25)] hover:shadow-[0_0_60px_rgba(255,255,255,0.45)] hover:scale-105 transition-all duration-300"
+              >
+                <span className="flex items-center justify-center gap-3 w-full">
+                  {m.startSession}
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="w-5 h-5 transition-transform duration-300 group-hover:translate-x-1"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M5 12h14" />
+                    <path d="m12 5 7 7-7 7" />
+                  </svg>
+                </span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* ── Auth / Payment Modal ── */}
+      {(flowState === "auth" || flowState === "micCheck" || flowState === "payment") && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-3 sm:p-4">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/60 backdrop-blur-xl transition-all duration-500"
+            onClick={handleCloseModal}
+          />
+
+          {/* Modal Card */}
+          <div className="relative w-[92vw] max-w-sm sm:w-full sm:max-w-md animate-fade-in-up">
+            <div
+              className={`
+                relative bg-black/80 backdrop-blur-3xl border border-white/10 shadow-2xl
+                flex flex-col overflow-hidden rounded-3xl
+                ${flowState === "payment"
+                  ? "px-7 pt-9 pb-8 sm:px-10 sm:pt-10 sm:pb-9"
+                  : "px-7 py-10 sm:px-10 sm:py-12"
+                }
+              `}
+            >
+              {/* Modal Background Glow */}
+              <div className="absolute top-0 right-0 w-64 h-64 bg-rose-600/20 blur-[80px] rounded-full pointer-events-none" />
+              <div className="absolute bottom-0 left-0 w-64 h-64 bg-indigo-600/20 blur-[80px] rounded-full pointer-events-none" />
+
+              <div className="relative z-10 flex flex-col gap-0">
+                {/* Header */}
+                <h3 className="text-[28px] sm:text-[32px] font-black text-white tracking-tight leading-tight mb-2">
+                  {flowState === "auth" ? m.authTitle : flowState === "micCheck" ? m.micCheckTitle : m.paymentTitle}
+                </h3>
+                <p className="text-[13px] sm:text-[14px] text-white/50 font-medium leading-snug mb-8 sm:mb-9">
+                  {flowState === "auth"
+                    ? m.authSubtitle
+                    : flowState === "micCheck"
+                      ? m.micCheckSubtitle
+                      : m.paymentSubtitle}
+                  {flowState === "payment" && user && (
+                    <span className="block mt-2 text-[12px] text-white/40">
+                      {m.signedInAs[0]}
+                      <span className="text-white/70 font-semibold">{user.identifier}</span>
+                      {m.signedInAs[1]}
+                      {" · "}
+                      <button onClick={handleSignOut} className="underline underline-offset-4 hover:text-white/80">
+                        {m.signOut}
+                      </button>
+                    </span>
+                  )}
+                </p>
+
+                {/* Auth Step */}
+                {flowState === "auth" && (
+                  <SignInStep onSignedIn={handleSignedIn} onContinueAsGuest={() => dispatch({ type: "continue_as_guest" })} />
+                )}
+
+                {/* Mic Check Step */}
+                {flowState === "micCheck" && (
+                  <MicCheckStep
+                    deviceId={micDeviceId}
+                    onDeviceChange={handleMicDeviceChange}
+                    language={conversationLanguage}
+                    onLanguageChange={handleLanguageChange}
+                    onContinue={() => dispatch({ type: "mic_checked" })}
+                  />
+                )}
+
+                {/* Payment Step */}
+                {flowState === "payment" && (
+                  <div className="flex flex-col gap-3 sm:gap-4">
+                    {/* Duration Grid */}
+                    <div className="grid grid-cols-6 gap-2 sm:gap-2.5">
+                      {creator.timeOptions.map((opt, index) => {
+                        const isSelected = selectedMinutes === opt.minutes;
+                        const colSpan = index < 3 ? "col-span-2" : "col-span-3";
+                        return (
+                          <button
+                            key={opt.minutes}
+                            onClick={() => handleSelectTime(opt.minutes)}
+                            className={`
+                              ${colSpan} h-16 sm:h-[68px] rounded-xl sm:rounded-2xl border transition-all duration-300
+                              flex flex-col items-center justify-center gap-0.5
+                              ${isSelected
+                                ? "border-white bg-white/10 text-white shadow-lg"
+                                : "border-white/20 bg-white/[0.02] text-white/60 hover:border-white/40 hover:text-white/80"
+                              }
+                            `}
+                          >
+                            <span className="text-[10px] sm:text-[11px] uppercase tracking-widest font-bold">
+                              {formatSessionLength(opt.minutes)}
+                            </span>
+                            <span className="text-[13px] sm:text-sm font-bold leading-none">
+                              {formatPrice(opt.price)}
+                            </span>
+                          </button>
+                        );
+                      })}
+                    </div>
+
+                    {/* Payment Status */}
+                    {paymentPhase !== "idle" && paymentPhase !== "processing" && (
+                      <div
+                        role="status"
+                        className={`rounded-xl border px-4 py-3 text-[13px] leading-snug ${paymentPhase === "pending" ? "border-amber-300/30 bg-amber-300/10 text-amber-100" : "border-rose-400/30 bg-rose-500/10 text-rose-100"}`}
+                      >
+                        {paymentPhase === "pending" && (
+                          <div className="flex items-center justify-between gap-3">
+                            <span>{common.paymentPending}</span>
+                            <button
+                              onClick={handleCheckPendingPayment}
+                              className="shrink-0 font-bold underline underline-offset-4"
+                            >
+                              {common.checkAgain}
+                            </button>
+                          </div>
+                        )}
+                        {paymentPhase === "failed" && (paymentError ? common.paymentErrors[paymentError] : common.paymentFailed)}
+                        {paymentPhase === "cancelled" && common.paymentCancelled}
+                      </div>
+                    )}
+
+                    {/* Begin Button */}
+                    <button
+                      onClick={handlePayAndStart}
+                      disabled={!selectedMinutes || paymentPhase === "processing" || paymentPhase === "pending"}
+                      className={`
+                        w-full h-14 sm:h-[58px] rounded-2xl font-bold text-base sm:text-lg transition-all duration-500 mt-1
+                        ${selectedMinutes && paymentPhase !== "processing" && paymentPhase !== "pending"
+                          ? "bg-gradient-to-r from-pink-500 via-red-500 to-orange-500 text-white shadow-[0_8px_32px_rgba(255,80,80,0.35)] hover:scale-[1.02] active:scale-100"
+                          : "bg-white/8 text-white/30 border border-white/10 cursor-not-allowed"
+                        }
+                      `}
+                    >
+                      {paymentPhase === "processing"
+                        ? common.processing
+                        : paymentPhase === "failed" || paymentPhase === "cancelled"
+                          ? m.tryAgain
+                          : m.beginSession}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Stays up past the end of the call while its checkout settles */}
+      {showAddTime && (
+        <AddTimeSheet
+          creator={creator}
+          onPaid={handleTopUpPaid}
+          onBusyChange={(busy) => {
+            topUpBusyRef.current = busy;
+          }}
+          onClose={() => {
+            topUpBusyRef.current = false;
+            setShowAddTime(false);
+          }}
+        />
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { DebugSnapshot, DebugTrace } from "../utils/debugTrace";
+
+interface DebugHudProps {
+  trace: DebugTrace;
+  /** Extra fields for the exported JSON (creator, connection stats, ...) */
+  getContext: () => Record<string, unknown>;
+}
+
+/* Redraw rate; the trace itself records every frame */
+const REFRESH_MS = 250;
+/* Time span of the line charts */
+const WINDOW_MS = 10000;
+/* 20 ms frames */
+const EXPECTED_FPS = 50;
+const LOG_LINES = 14;
+
+type Point = [at: number, value: number];
+
+interface Series {
+  points: Point[];
+  color: string;
+}
+
+interface ChartMarker {
+  at: number;
+  color: string;
+}
+
+/* Line chart of `series` over the last WINDOW_MS, with vertical markers */
+const drawLines = (canvas: HTMLCanvasElement, now: number, series: Series[], markers: ChartMarker[] = []) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  const { width, height } = canvas;
+  const start = now - WINDOW_MS;
+  let max = 0;
+  series.forEach(({ points }) => points.forEach(([, v]) => (max = Math.max(max, v))));
+  const yMax = max > 0 ? max * 1.15 : 1;
+  const x = (at: number) => ((at - start) / WINDOW_MS) * width;
+  const y = (v: number) => height - (v / yMax) * height;
+
+  ctx.clearRect(0, 0, width, height);
+  markers.forEach(({ at, color }) => {
+    if (at < start) return;
+    ctx.fillStyle = color;
+    ctx.fillRect(x(at), 0, 1, height);
+  });
+  series.forEach(({ points, color }) => {
+    ctx.beginPath();
+    points.forEach(([at, v], i) => {
+      if (at < start) return;
+      if (i === 0 || points[i - 1][0] < start) ctx.moveTo(x(at), y(v));
+      else ctx.lineTo(x(at), y(v));
+    });
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  });
+};
+
+/* Bar per second, with a guide at the expected frame rate */
+const drawBars = (canvas: HTMLCanvasElement, values: number[]) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  const { width, height } = canvas;
+  const yMax = Math.max(EXPECTED_FPS * 1.3, ...values);
+  const barWidth = width / values.length;
+
+  ctx.clearRect(0, 0, width, height);
+  values.forEach((v, i) => {
+    const h = (v / yMax) * height;
+    ctx.fillStyle = v >= EXPECTED_FPS * 0.9 || i === values.length - 1 ? "rgba(134, 239, 172, 0.8)" : "rgba(253, 164, 175, 0.9)";
+    ctx.fillRect(i * barWidth, height - h, Math.max(1, barWidth - 1), h);
+  });
+  ctx.fillStyle = "rgba(255, 255, 255, 0.35)";
+  ctx.fillRect(0, height - (EXPECTED_FPS / yMax) * height, width, 1);
+};
+
+const chartClass = "w-full h-16 rounded bg-white/[0.04]";
+
+/**
+ * `?debug=1` overlay: live mic RMS against the VAD threshold, speech markers,
+ * frames sent per second, TTS buffer depth and lead, and the control log.
+ */
+export default function DebugHud({ trace, getContext }: DebugHudProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  /* Latest snapshot and the moment it was taken */
+  const [view, setView] = useState<{ snapshot: DebugSnapshot; now: number } | null>(null);
+  const vadCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const fpsCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const bufferCanvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    if (collapsed) return;
+    const refresh = () => {
+      const next = trace.snapshot();
+      const now = performance.now();
+      setView({ snapshot: next, now });
+
+      if (vadCanvasRef.current) {
+        drawLines(
+          vadCanvasRef.current,
+          now,
+          [
+            { points: next.mic.map((f) => [f.at, f.threshold]), color: "rgb(252, 211, 77)" },
+            { points: next.mic.map((f) => [f.at, f.rms]), color: "rgb(103, 232, 249)" },
+          ],
+          next.mic
+            .filter((f) => f.event)
+            .map((f) => ({ at: f.at, color: f.event === "speech_start" ? "rgb(134, 239, 172)" : "rgb(253, 164, 175)" })),
+        );
+      }
+      if (fpsCanvasRef.current) drawBars(fpsCanvasRef.current, next.framesPerSecond.slice(-30));
+      if (bufferCanvasRef.current) {
+        drawLines(bufferCanvasRef.current, now, [
+          { points: next.playback.map((p) => [p.at, p.bufferedMs]), color: "rgb(253, 164, 175)" },
+          { points: next.playback.map((p) => [p.at, p.leadMs]), color: "rgb(196, 181, 253)" },
+        ]);
+      }
+    };
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [trace, collapsed]);
+
+  const handleExport = () => {
+    const blob = new Blob([trace.exportJson(getContext())], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `call-debug-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const snapshot = view?.snapshot;
+  const lastFrame = snapshot?.mic[snapshot.mic.length - 1];
+  const lastPlayback = snapshot?.playback[snapshot.playback.length - 1];
+  // The last bucket is the second still in progress
+  const fps = snapshot && snapshot.framesPerSecond.length > 1 ? snapshot.framesPerSecond[snapshot.framesPerSecond.length - 2] : 0;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[60] w-[min(360px,calc(100vw-2rem))] rounded-xl border border-white/15 bg-black/80 backdrop-blur-md p-3 font-mono text-[10px] text-white/75 shadow-2xl">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-bold tracking-wider text-white">AUDIO DEBUG</span>
+        <div className="flex gap-2">
+          <button onClick={handleExport} className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50">
+            Export JSON
+          </button>
+          <button onClick={() => setCollapsed((v) => !v)} className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50">
+            {collapsed ? "Show" : "Hide"}
+          </button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <div className="mt-2 flex flex-col gap-2">
+          <div>
+            <div className="flex justify-between">
+              <span>
+                <span className="text-cyan-300">rms</span> vs <span className="text-amber-300">threshold</span>
+              </span>
+              <span>
+                {lastFrame ? `${lastFrame.rms.toFixed(4)} / ${lastFrame.threshold.toFixed(4)}${lastFrame.speaking ? " · speaking" : ""}` : "no frames"}
+              </span>
+            </div>
+            <canvas ref={vadCanvasRef} width={336} height={64} className={chartClass} />
+          </div>
+
+          <div>
+            <div className="flex justify-between">
+              <span>frames sent / s (30 s)</span>
+              <span className={fps < EXPECTED_FPS * 0.9 ? "text-rose-300" : ""}>{fps}</span>
+            </div>
+            <canvas ref={fpsCanvasRef} width={336} height={64} className={chartClass} />
+          </div>
+
+          <div>
+            <div className="flex justify-between">
+              <span>
+                <span className="text-rose-300">buffered</span> / <span className="text-violet-300">lead</span> ms
+              </span>
+              <span>
+                {lastPlayback
+                  ? `${lastPlayback.bufferedMs} / ${lastPlayback.leadMs} · ${lastPlayback.state} · underruns ${lastPlayback.underruns}`
+                  : "-"}
+              </span>
+            </div>
+            <canvas ref={bufferCanvasRef} width={336} height={64} className={chartClass} />
+          </div>
+
+          <div>
+            <span>control messages</span>
+            <ol className="mt-1 max-h-40 overflow-y-auto flex flex-col gap-0.5">
+              {(snapshot?.control.slice(-LOG_LINES) ?? []).reverse().map((entry, i) => (
+                <li key={`${entry.at}-${i}`} className="truncate" title={JSON.stringify(entry.message)}>
+                  <span className="text-white/40">{((entry.at - view!.now) / 1000).toFixed(1)}s</span>{" "}
+                  <span className={entry.direction === "in" ? "text-green-300" : "text-cyan-300"}>
+                    {entry.direction === "in" ? "←" : "→"}
+                  </span>{" "}
+                  {entry.type}
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { createContext, useCallback, useContext, useMemo, useState, type ReactNode } from "react";
+import { useRouter } from "next/navigation";
+import {
+  LOCALE_COOKIE,
+  formatDateTime,
+  formatPrice,
+  formatSessionLength,
+  getMessages,
+  type Locale,
+  type Messages,
+} from "@/lib/i18n";
+
+interface I18nContextValue {
+  locale: Locale;
+  messages: Messages;
+  /** Switch the UI language and remember it for server rendering */
+  setLocale: (locale: Locale) => void;
+  formatPrice: (amount: number) => string;
+  formatSessionLength: (minutes: number) => string;
+  formatDateTime: (timestamp: number) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+interface I18nProviderProps {
+  /** Locale the server rendered with, so hydration matches */
+  initialLocale: Locale;
+  children: ReactNode;
+}
+
+/**
+ * UI language for every client component below it; read with `useI18n`.
+ */
+export default function I18nProvider({ initialLocale, children }: I18nProviderProps) {
+  const router = useRouter();
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      setLocaleState(next);
+      document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+      document.documentElement.lang = next;
+      // Server components (catalog, metadata) re-render in the new language
+      router.refresh();
+    },
+    [router],
+  );
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      messages: getMessages(locale),
+      setLocale,
+      formatPrice: (amount) => formatPrice(locale, amount),
+      formatSessionLength: (minutes) => formatSessionLength(locale, minutes),
+      formatDateTime: (timestamp) => formatDateTime(locale, timestamp),
+    }),
+    [locale, setLocale],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = (): I18nContextValue => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error("useI18n must be used inside I18nProvider");
+  return value;
+};
@@ -0,0 +1,30 @@
+"use client";
+
+import { LOCALES, LOCALE_NAMES, isLocale } from "@/lib/i18n";
+import { useI18n } from "./I18nProvider";
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+/**
+ * UI language picker, each language listed in its own script.
+ */
+export default function LanguageSwitcher({ className = "" }: LanguageSwitcherProps) {
+  const { locale, setLocale, messages } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+      aria-label={messages.common.language}
+      className={`h-8 rounded-full border border-white/15 bg-white/[0.04] px-3 text-[12px] sm:text-[13px] font-semibold text-white/70 hover:text-white outline-none focus:border-white/50 transition-colors duration-300 ${className}`}
+    >
+      {LOCALES.map((code) => (
+        <option key={code} value={code} className="bg-black">
+          {LOCALE_NAMES[code]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { getAudioLevel, recordUtteranceWithVAD, startMicMonitor } from "../utils/audioUtils";
+import { listMicrophones, watchMicrophones } from "../utils/micDevices";
+import { LOCALES, LOCALE_NAMES, isLocale, type Locale } from "@/lib/i18n";
+import { useI18n } from "./I18nProvider";
+
+type TestPhase = "idle" | "recording" | "playing" | "no-speech";
+
+interface MicCheckStepProps {
+  /** Selected input; null is the system default */
+  deviceId: string | null;
+  onDeviceChange: (deviceId: string | null) => void;
+  /** Language the call will be held in (STT and TTS) */
+  language: Locale;
+  onLanguageChange: (language: Locale) => void;
+  onContinue: () => void;
+}
+
+const selectClass =
+  "w-full h-12 sm:h-[52px] rounded-2xl border border-white/15 bg-white/[0.04] px-4 text-[15px] text-white outline-none focus:border-white/50 transition-colors duration-300";
+
+const labelClass = "text-[10px] uppercase tracking-[0.22em] text-white/45 font-semibold";
+
+const primaryClass =
+  "w-full h-14 sm:h-[58px] rounded-2xl bg-white text-black text-[15px] sm:text-[16px] font-extrabold shadow-xl hover:scale-[1.02] active:scale-100 transition-all duration-300 disabled:opacity-40 disabled:hover:scale-100";
+
+/**
+ * Pre-payment mic check: choose an input and the conversation language,
+ * watch the level and hear a sample.
+ */
+export default function MicCheckStep({
+  deviceId,
+  onDeviceChange,
+  language,
+  onLanguageChange,
+  onContinue,
+}: MicCheckStepProps) {
+  const { micCheck: m } = useI18n().messages;
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [level, setLevel] = useState(0);
+  const [micError, setMicError] = useState(false);
+  /* Permission granted: only then does the device list carry real ids and labels */
+  const [hasAccess, setHasAccess] = useState(false);
+  const [testPhase, setTestPhase] = useState<TestPhase>("idle");
+  const [sampleUrl, setSampleUrl] = useState<string | null>(null);
+  const sampleAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  /* ── Device list, kept current across hot-plug ── */
+  useEffect(() => watchMicrophones(setDevices), []);
+
+  /* The chosen device was unplugged: fall back to the default. Before access
+     is granted every saved device looks missing, so wait for a labelled list. */
+  useEffect(() => {
+    if (!hasAccess || !deviceId || !devices.some((device) => device.label)) return;
+    if (!devices.some((device) => device.deviceId === deviceId)) onDeviceChange(null);
+  }, [hasAccess, devices, deviceId, onDeviceChange]);
+
+  /* ── Live level meter for the selected input ── */
+  useEffect(() => {
+    let cancelled = false;
+    let frameId = 0;
+    let stopMonitor: (() => void) | null = null;
+
+    startMicMonitor(deviceId)
+      .then((monitor) => {
+        if (cancelled) {
+          monitor.stop();
+          return;
+        }
+        stopMonitor = monitor.stop;
+        setMicError(false);
+        setHasAccess(true);
+        // Labels only appear once permission is granted
+        listMicrophones().then((next) => !cancelled && setDevices(next));
+
+        const tick = () => {
+          setLevel(getAudioLevel(monitor.analyser));
+          frameId = requestAnimationFrame(tick);
+        };
+        tick();
+      })
+      .catch(() => {
+        if (!cancelled) setMicError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frameId);
+      stopMonitor?.();
+      setLevel(0);
+    };
+  }, [deviceId]);
+
+  useEffect(
+    () => () => {
+      if (sampleUrl) URL.revokeObjectURL(sampleUrl);
+    },
+    [sampleUrl],
+  );
+
+  const playSample = (url: string) => {
+    sampleAudioRef.current?.pause();
+    const audio = new Audio(url);
+    sampleAudioRef.current = audio;
+    setTestPhase("playing");
+    audio.onended = () => setTestPhase("idle");
+    audio.play().catch(() => setTestPhase("idle"));
+  };
+
+  const handleTest = async () => {
+    setTestPhase("recording");
+    try {
+      const blob = await recordUtteranceWithVAD({ deviceId, maxDurationMs: 5000, noInputTimeoutMs: 4000 });
+      if (!blob) {
+        setTestPhase("no-speech");
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      setSampleUrl(url);
+      playSample(url);
+    } catch {
+      setMicError(true);
+      setTestPhase("idle");
+    }
+  };
+
+  useEffect(() => () => sampleAudioRef.current?.pause(), []);
+
+  return (
+    <div className="flex flex-col gap-3 sm:gap-4">
+      <label className="flex flex-col gap-1.5">
+        <span className={labelClass}>{m.microphone}</span>
+        <select
+          value={deviceId ?? ""}
+          onChange={(e) => onDeviceChange(e.target.value || null)}
+          disabled={testPhase === "recording"}
+          className={selectClass}
+        >
+          <option value="" className="bg-black">{m.systemDefault}</option>
+          {devices.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId} className="bg-black">
+              {device.label || m.microphoneN(index + 1)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1.5">
+        <span className={labelClass}>{m.conversationLanguage}</span>
+        <select
+          value={language}
+          onChange={(e) => isLocale(e.target.value) && onLanguageChange(e.target.value)}
+          className={selectClass}
+        >
+          {LOCALES.map((code) => (
+            <option key={code} value={code} className="bg-black">
+              {LOCALE_NAMES[code]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {/* Level Meter */}
+      <div
+        className="h-2.5 w-full rounded-full bg-white/10 overflow-hidden"
+        role="meter"
+        aria-label={m.level}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(level * 100)}
+      >
+        <div
+          className="h-full rounded-full bg-gradient-to-r from-cyan-300 to-green-400 transition-[width] duration-75"
+          style={{ width: `${Math.round(level * 100)}%` }}
+        />
+      </div>
+
+      {micError ? (
+        <p role="alert" className="text-[13px] text-rose-300">
+          {m.accessError}
+        </p>
+      ) : (
+        <p className="text-[13px] text-white/50 leading-snug" role="status">
+          {testPhase === "recording"
+            ? m.listening
+            : testPhase === "playing"
+              ? m.playing
+              : testPhase === "no-speech"
+                ? m.noSpeech
+                : m.hint}
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={handleTest}
+          disabled={testPhase === "recording" || micError}
+          className="h-12 rounded-2xl border border-white/20 text-white/80 text-[14px] font-bold hover:border-white/40 hover:text-white transition-all duration-300 disabled:opacity-40"
+        >
+          {testPhase === "recording" ? m.recording : m.recordTest}
+        </button>
+        <button
+          onClick={() => sampleUrl && playSample(sampleUrl)}
+          disabled={!sampleUrl || testPhase === "recording"}
+          className="h-12 rounded-2xl border border-white/20 text-white/80 text-[14px] font-bold hover:border-white/40 hover:text-white transition-all duration-300 disabled:opacity-40"
+        >
+          {m.playBack}
+        </button>
+      </div>
+
+      <button onClick={onContinue} disabled={testPhase === "recording"} className={`${primaryClass} mt-2`}>
+        {m.soundsGood}
+      </button>
+    </div>
+  );
+}
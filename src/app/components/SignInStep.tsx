@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import type { AuthUser } from "@/lib/auth/types";
+import { requestMagicLink, requestOtp, verifyOtp, type AuthError } from "../utils/authClient";
+import { useI18n } from "./I18nProvider";
+
+type Method = "phone" | "email";
+type Stage = "enter" | "code" | "link-sent";
+
+interface SignInStepProps {
+  onSignedIn: (user: AuthUser) => void;
+  onContinueAsGuest: () => void;
+}
+
+const inputClass =
+  "w-full h-12 sm:h-[52px] rounded-2xl border border-white/15 bg-white/[0.04] px-4 text-[15px] text-white placeholder:text-white/30 outline-none focus:border-white/50 transition-colors duration-300";
+
+const primaryClass =
+  "w-full h-14 sm:h-[58px] rounded-2xl bg-white text-black text-[15px] sm:text-[16px] font-extrabold shadow-xl hover:scale-[1.02] active:scale-100 transition-all duration-300 disabled:opacity-40 disabled:hover:scale-100";
+
+/**
+ * Identification step: phone OTP, email magic link, or guest.
+ */
+export default function SignInStep({ onSignedIn, onContinueAsGuest }: SignInStepProps) {
+  const { signIn: m } = useI18n().messages;
+  const [method, setMethod] = useState<Method>("phone");
+  const [stage, setStage] = useState<Stage>("enter");
+  const [value, setValue] = useState("");
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<AuthError | null>(null);
+
+  const switchMethod = (next: Method) => {
+    setMethod(next);
+    setStage("enter");
+    setValue("");
+    setCode("");
+    setError(null);
+  };
+
+  const handleSend = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    const result = method === "phone" ? await requestOtp(value) : await requestMagicLink(value, window.location.pathname);
+    setBusy(false);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setStage(method === "phone" ? "code" : "link-sent");
+  };
+
+  const handleVerify = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    const result = await verifyOtp(value, code);
+    setBusy(false);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    onSignedIn(result.data.user);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 sm:gap-4">
+      {/* Method Tabs */}
+      <div className="grid grid-cols-2 rounded-2xl border border-white/10 bg-white/5 p-1" role="tablist">
+        {(["phone", "email"] as Method[]).map((tab) => (
+          <button
+            key={tab}
+            role="tab"
+            aria-selected={method === tab}
+            onClick={() => switchMethod(tab)}
+            className={`h-10 rounded-xl text-[13px] font-bold transition-colors duration-300 ${method === tab ? "bg-white text-black" : "text-white/55 hover:text-white/80"}`}
+          >
+            {tab === "phone" ? m.phone : m.email}
+          </button>
+        ))}
+      </div>
+
+      {stage === "enter" && (
+        <form onSubmit={handleSend} className="flex flex-col gap-3">
+          <input
+            type={method === "phone" ? "tel" : "email"}
+            inputMode={method === "phone" ? "tel" : "email"}
+            autoComplete={method === "phone" ? "tel" : "email"}
+            placeholder={method === "phone" ? m.mobileNumber : "you@example.com"}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={inputClass}
+            required
+          />
+          <button type="submit" disabled={busy || !value.trim()} className={primaryClass}>
+            {busy ? m.sending : method === "phone" ? m.sendCode : m.sendLink}
+          </button>
+        </form>
+      )}
+
+      {stage === "code" && (
+        <form onSubmit={handleVerify} className="flex flex-col gap-3">
+          <p className="text-[13px] text-white/55">
+            {m.codeSent[0]}
+            <span className="text-white/85 font-semibold">{value}</span>
+            {m.codeSent[1]}
+          </p>
+          <input
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            pattern="\d{6}"
+            maxLength={6}
+            placeholder={m.codePlaceholder}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            className={`${inputClass} tracking-[0.4em] text-center font-mono`}
+            required
+          />
+          <button type="submit" disabled={busy || code.length !== 6} className={primaryClass}>
+            {busy ? m.verifying : m.verify}
+          </button>
+          <button
+            type="button"
+            onClick={() => switchMethod("phone")}
+            className="text-[12px] font-semibold text-white/45 hover:text-white/80 transition-colors duration-300"
+          >
+            {m.differentNumber}
+          </button>
+        </form>
+      )}
+
+      {stage === "link-sent" && (
+        <div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-[13px] text-white/70 leading-snug">
+          {m.linkSent[0]}
+          <span className="text-white font-semibold">{value}</span>
+          {m.linkSent[1]}
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className="text-[13px] text-rose-300">
+          {m.errors[error]}
+        </p>
+      )}
+
+      <div className="flex items-center gap-3 my-1">
+        <span className="h-px flex-1 bg-white/10" />
+        <span className="text-[10px] uppercase tracking-[0.22em] text-white/35 font-semibold">{m.or}</span>
+        <span className="h-px flex-1 bg-white/10" />
+      </div>
+
+      <button
+        onClick={onContinueAsGuest}
+        className="w-full h-12 sm:h-[52px] rounded-2xl border border-white/20 text-white/80 text-[14px] sm:text-[15px] font-bold hover:border-white/40 hover:text-white transition-all duration-300"
+      >
+        {m.continueAsGuest}
+      </button>
+    </div>
+  );
+}
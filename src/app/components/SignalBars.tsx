@@ -0,0 +1,55 @@
+"use client";
+
+import type { ConnectionStats } from "../utils/connectionQuality";
+import { useI18n } from "./I18nProvider";
+import type { Messages } from "@/lib/i18n";
+
+interface SignalBarsProps {
+  /** Latest stats; null before the first measurement */
+  stats: ConnectionStats | null;
+  /** False while the socket is down, which shows no bars */
+  connected: boolean;
+}
+
+const BAR_COUNT = 4;
+
+const barColor = (bars: number) =>
+  bars >= 3 ? "bg-green-400" : bars === 2 ? "bg-amber-300" : "bg-rose-400";
+
+const describe = (stats: ConnectionStats, m: Messages["call"]["stats"]) =>
+  [
+    stats.rttMs !== null && m.ping(stats.rttMs),
+    stats.jitterMs !== null && m.jitter(stats.jitterMs),
+    stats.lossRate > 0 && m.loss(Math.round(stats.lossRate * 100)),
+    stats.uplinkBacklogMs > 0 && m.uplinkBacklog(stats.uplinkBacklogMs),
+    stats.ttsMaxGapMs !== null && m.audioGaps(stats.ttsMaxGapMs),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+/**
+ * Phone-style signal indicator for the call connection.
+ */
+export default function SignalBars({ stats, connected }: SignalBarsProps) {
+  const { call: m } = useI18n().messages;
+  // No numbers yet on a live socket: assume fine rather than alarm anyone
+  const bars = connected ? (stats?.bars ?? BAR_COUNT) : 0;
+  const label = connected ? m.connection(m.qualityLabels[bars]) : m.offline;
+
+  return (
+    <div
+      role="img"
+      aria-label={label}
+      title={stats && connected ? `${label} — ${describe(stats, m.stats)}` : label}
+      className="inline-flex items-end gap-[2px] h-3"
+    >
+      {Array.from({ length: BAR_COUNT }, (_, i) => (
+        <span
+          key={i}
+          className={`w-[3px] rounded-sm transition-colors duration-500 ${i < bars ? barColor(bars) : "bg-white/15"}`}
+          style={{ height: `${((i + 1) / BAR_COUNT) * 100}%` }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { formatTranscript, type TranscriptEntry } from "../utils/transcript";
+import { useI18n } from "./I18nProvider";
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  assistantName: string;
+  /** Shows a message box; called with the trimmed text */
+  onSendText?: (text: string) => void;
+  /** Disables sending, e.g. while reconnecting (default true) */
+  canSend?: boolean;
+}
+
+/* Within this many px of the bottom counts as "following" the captions */
+const FOLLOW_THRESHOLD_PX = 48;
+
+/**
+ * Scrollable live captions for the active call. Follows new text unless the
+ * user has scrolled up to read back. With `onSendText` it doubles as a chat.
+ */
+export default function TranscriptPanel({ entries, assistantName, onSendText, canSend = true }: TranscriptPanelProps) {
+  const { transcript: m } = useI18n().messages;
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const followRef = useRef(true);
+  const [copied, setCopied] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && followRef.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [entries]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    followRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < FOLLOW_THRESHOLD_PX;
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || !canSend || typeof onSendText !== "function") return;
+    onSendText(text);
+    setDraft("");
+    // Your own message always scrolls into view
+    followRef.current = true;
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatTranscript(entries, { user: m.you, assistant: assistantName }));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // clipboard unavailable (insecure context / denied)
+    }
+  };
+
+  return (
+    <div className="w-full rounded-2xl border border-white/10 bg-black/40 backdrop-blur-xl shadow-[0_10px_28px_rgba(0,0,0,0.4)]">
+      <div className="flex items-center justify-between px-4 pt-3">
+        <span className="text-[9px] sm:text-[10px] uppercase tracking-[0.22em] text-white/45 font-semibold">
+          {onSendText ? m.chat : m.captions}
+        </span>
+        <button
+          onClick={handleCopy}
+          disabled={entries.length === 0}
+          className="text-[11px] font-semibold text-white/55 hover:text-white disabled:text-white/20 transition-colors duration-300"
+        >
+          {copied ? m.copied : m.copy}
+        </button>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="max-h-36 sm:max-h-44 overflow-y-auto px-4 pb-3 pt-2 flex flex-col gap-2 text-left"
+        role="log"
+        aria-live="polite"
+        aria-label={m.logLabel}
+      >
+        {entries.length === 0 ? (
+          <p className="text-[13px] text-white/35">
+            {onSendText ? m.emptyChat : m.emptyCaptions}
+          </p>
+        ) : (
+          entries.map((entry) => (
+            <p
+              key={`${entry.role}-${entry.id}`}
+              className={`text-[13px] sm:text-sm leading-snug ${entry.final ? "text-white/85" : "text-white/50 italic"}`}
+            >
+              <span className={`font-semibold mr-1.5 ${entry.role === "user" ? "text-cyan-300" : "text-rose-300"}`}>
+                {entry.role === "user" ? m.you : assistantName}
+              </span>
+              {entry.text}
+            </p>
+          ))
+        )}
+      </div>
+
+      {onSendText && (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2 border-t border-white/10 px-3 py-2.5">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={m.placeholder}
+            aria-label={m.messageLabel}
+            maxLength={1000}
+            className="flex-1 min-w-0 h-9 rounded-xl bg-white/[0.06] border border-white/10 px-3 text-[13px] text-white placeholder:text-white/30 outline-none focus:border-white/35 transition-colors duration-300"
+          />
+          <button
+            type="submit"
+            disabled={!canSend || !draft.trim()}
+            className="h-9 px-4 rounded-xl bg-white text-black text-[12px] font-bold transition-opacity duration-300 disabled:opacity-30"
+          >
+            {m.send}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getCreator } from "@/lib/creators";
+import { getMessages } from "@/lib/i18n";
+import { getRequestLocale } from "@/lib/i18n/server";
+import CreatorSession from "../../components/CreatorSession";
+
+interface CreatorPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateMetadata({ params }: CreatorPageProps): Promise<Metadata> {
+  const creator = await getCreator((await params).slug);
+  if (!creator) return {};
+  const title = getMessages(await getRequestLocale()).meta.creatorTitle(creator.name);
+
+  return {
+    title,
+    description: creator.description,
+    openGraph: {
+      title,
+      description: creator.description,
+      images: [creator.images.hero],
+    },
+  };
+}
+
+export default async function CreatorPage({ params }: CreatorPageProps) {
+  const creator = await getCreator((await params).slug);
+  if (!creator) notFound();
+
+  return <CreatorSession creator={creator} />;
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  deleteRecording,
+  listRecordings,
+  recordingFileName,
+  type CallRecording,
+} from "../utils/recordingStore";
+import { useI18n } from "../components/I18nProvider";
+import LanguageSwitcher from "../components/LanguageSwitcher";
+
+interface RecordingItem {
+  recording: CallRecording;
+  /** Object URL for playback and download, revoked on unmount */
+  url: string;
+}
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Recorded calls stored on this device: play, download or delete.
+ */
+export default function HistoryPage() {
+  const { messages, formatDateTime } = useI18n();
+  const m = messages.history;
+  const [items, setItems] = useState<RecordingItem[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: RecordingItem[] = [];
+
+    listRecordings()
+      .then((recordings) => {
+        loaded = recordings.map((recording) => ({ recording, url: URL.createObjectURL(recording.audio) }));
+        if (cancelled) {
+          loaded.forEach((item) => URL.revokeObjectURL(item.url));
+          return;
+        }
+        setItems(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      loaded.forEach((item) => URL.revokeObjectURL(item.url));
+    };
+  }, []);
+
+  const handleDelete = async (item: RecordingItem) => {
+    if (!window.confirm(m.confirmDelete)) return;
+    await deleteRecording(item.recording.id);
+    setItems((prev) => prev?.filter((other) => other.recording.id !== item.recording.id) ?? null);
+    // Release the blob now rather than when the page unloads
+    URL.revokeObjectURL(item.url);
+  };
+
+  return (
+    <main className="relative min-h-screen w-full bg-[#0F0F13] text-white font-sans selection:bg-rose-500/30">
+      <div className="relative z-10 w-full max-w-3xl mx-auto px-6 sm:px-10 py-16 sm:py-24">
+        <div className="flex items-center justify-between gap-4">
+          <Link
+            href="/"
+            className="text-[12px] sm:text-[13px] font-semibold text-white/50 hover:text-white transition-colors duration-300"
+          >
+            {m.allCreators}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <h1 className="mt-6 text-[2.5rem] sm:text-6xl font-black tracking-tighter leading-[0.9] mb-3">
+          <span className="block text-transparent bg-clip-text bg-gradient-to-r from-white to-white/50">
+            {m.title}
+          </span>
+        </h1>
+        <p className="text-[13px] sm:text-sm text-white/50 mb-10 sm:mb-12">
+          {m.subtitle}
+        </p>
+
+        {loadError ? (
+          <p className="text-rose-200/80 text-sm">{m.loadError}</p>
+        ) : items === null ? (
+          <p className="text-white/40 text-sm">{m.loading}</p>
+        ) : items.length === 0 ? (
+          <p className="text-white/40 text-sm">{m.empty}</p>
+        ) : (
+          <ul className="flex flex-col gap-4">
+            {items.map((item) => (
+              <li
+                key={item.recording.id}
+                className="rounded-2xl border border-white/10 bg-white/[0.03] px-5 py-4 flex flex-col gap-3"
+              >
+                <div className="flex items-baseline justify-between gap-4">
+                  <div>
+                    <h2 className="text-lg font-bold tracking-tight">{item.recording.creatorName}</h2>
+                    <span className="text-[12px] text-white/45">
+                      {formatDateTime(item.recording.startedAt)} · {formatDuration(item.recording.durationMs)} ·{" "}
+                      {formatSize(item.recording.size)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-4 shrink-0 text-[12px] font-semibold">
+                    <a
+                      href={item.url}
+                      download={recordingFileName(item.recording)}
+                      className="text-white/60 hover:text-white transition-colors duration-300"
+                    >
+                      {m.download}
+                    </a>
+                    <button
+                      onClick={() => handleDelete(item)}
+                      className="text-rose-300/70 hover:text-rose-200 transition-colors duration-300"
+                    >
+                      {m.delete}
+                    </button>
+                  </div>
+                </div>
+                <audio controls preload="metadata" src={item.url} className="w-full" />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
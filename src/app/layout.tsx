@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Outfit, Playfair_Display } from "next/font/google";
+import { getMessages } from "@/lib/i18n";
+import { getRequestLocale } from "@/lib/i18n/server";
+import I18nProvider from "./components/I18nProvider";
 import "./globals.css";
 
 const outfit = Outfit({
@@ -12,21 +15,25 @@ const playfair = Playfair_Display({
   variable: "--font-playfair",
 });
 
-export const metadata: Metadata = {
-  title: "Sreemukhi — Voice Chat",
-  description:
-    "Premium interactive voice chat experience with Sreemukhi. Start a live session now.",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { meta } = getMessages(await getRequestLocale());
+  return {
+    title: meta.title,
+    description: meta.description,
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getRequestLocale();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body className={`${outfit.variable} ${playfair.variable} antialiased noise-overlay`}>
-        {children}
+        <I18nProvider initialLocale={locale}>{children}</I18nProvider>
       </body>
     </html>
   );
@@ -0,0 +1,199 @@
+/**
+ * Call audio formats and the WebCodecs Opus encoder / decoder behind them.
+ *
+ * Raw PCM16 @ 16 kHz is ~256 kbps each way; Opus brings speech down to
+ * ~24 kbps. Opus is only offered when the browser's WebCodecs supports it,
+ * and only used when the server picks it in `hello_ack`.
+ */
+
+export const PCM16_FORMAT = "pcm16/16000";
+export const OPUS_FORMAT = "opus/16000";
+
+export type AudioFormat = typeof PCM16_FORMAT | typeof OPUS_FORMAT;
+
+export interface AudioFormatSupport {
+  /** Uplink formats, most preferred first */
+  audioIn: AudioFormat[];
+  /** Downlink formats, most preferred first */
+  audioOut: AudioFormat[];
+}
+
+const SAMPLE_RATE = 16000;
+/* Speech-quality mono Opus */
+const OPUS_BITRATE = 24000;
+/* One Opus packet per 20 ms mic frame */
+const OPUS_FRAME_US = 20000;
+
+const OPUS_ENCODER_CONFIG: AudioEncoderConfig = {
+  codec: "opus",
+  sampleRate: SAMPLE_RATE,
+  numberOfChannels: 1,
+  bitrate: OPUS_BITRATE,
+  opus: { frameDuration: OPUS_FRAME_US },
+};
+
+const OPUS_DECODER_CONFIG: AudioDecoderConfig = {
+  codec: "opus",
+  sampleRate: SAMPLE_RATE,
+  numberOfChannels: 1,
+};
+
+export const PCM16_ONLY: AudioFormatSupport = { audioIn: [PCM16_FORMAT], audioOut: [PCM16_FORMAT] };
+
+/**
+ * Formats this browser can handle. Never rejects; PCM16 is always listed.
+ */
+export const detectAudioFormats = async (): Promise<AudioFormatSupport> => {
+  const check = async (supported: () => Promise<{ supported?: boolean }>): Promise<boolean> => {
+    try {
+      return (await supported()).supported === true;
+    } catch {
+      return false;
+    }
+  };
+
+  const [canEncode, canDecode] = await Promise.all([
+    typeof AudioEncoder !== "undefined" && check(() => AudioEncoder.isConfigSupported(OPUS_ENCODER_CONFIG)),
+    typeof AudioDecoder !== "undefined" && check(() => AudioDecoder.isConfigSupported(OPUS_DECODER_CONFIG)),
+  ]);
+
+  return {
+    audioIn: canEncode ? [OPUS_FORMAT, PCM16_FORMAT] : [PCM16_FORMAT],
+    audioOut: canDecode ? [OPUS_FORMAT, PCM16_FORMAT] : [PCM16_FORMAT],
+  };
+};
+
+/** Uplink bytes per second of audio in `format` */
+export const audioBytesPerSecond = (format: AudioFormat): number =>
+  format === OPUS_FORMAT ? OPUS_BITRATE / 8 : SAMPLE_RATE * 2;
+
+/** Anything other than a known format (including absent) means PCM16 */
+export const toAudioFormat = (format: string | undefined): AudioFormat =>
+  format === OPUS_FORMAT ? OPUS_FORMAT : PCM16_FORMAT;
+
+/* ────────────────────────────────────────────────────
+ *  Uplink
+ * ──────────────────────────────────────────────────── */
+
+export interface FrameEncoder {
+  /** Encode one 20 ms PCM16 frame; packets arrive via `onPacket` */
+  encode: (frame: Int16Array) => void;
+  close: () => void;
+}
+
+/**
+ * Opus encoder for mic frames. Each packet is handed to `onPacket` to go out
+ * as one binary WebSocket message.
+ */
+export const createOpusEncoder = (
+  onPacket: (packet: ArrayBuffer) => void,
+  onError?: (err: Error) => void,
+): FrameEncoder => {
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const packet = new ArrayBuffer(chunk.byteLength);
+      chunk.copyTo(packet);
+      onPacket(packet);
+    },
+    error: (err) => {
+      if (typeof onError === "function") onError(err);
+    },
+  });
+  encoder.configure(OPUS_ENCODER_CONFIG);
+
+  let timestampUs = 0;
+
+  return {
+    encode: (frame) => {
+      if (encoder.state !== "configured") return;
+      const data = new AudioData({
+        format: "s16",
+        sampleRate: SAMPLE_RATE,
+        numberOfFrames: frame.length,
+        numberOfChannels: 1,
+        timestamp: timestampUs,
+        data: frame as Int16Array<ArrayBuffer>,
+      });
+      timestampUs += Math.round((frame.length / SAMPLE_RATE) * 1e6);
+      encoder.encode(data);
+      data.close();
+    },
+    close: () => {
+      if (encoder.state !== "closed") encoder.close();
+    },
+  };
+};
+
+/* ────────────────────────────────────────────────────
+ *  Downlink
+ * ──────────────────────────────────────────────────── */
+
+/** Where decoded TTS audio goes; the playback engine implements this */
+export interface PcmSink {
+  enqueuePcm16: (data: ArrayBuffer) => void;
+  enqueueFloat32: (samples: Float32Array<ArrayBuffer>, sampleRate: number) => void;
+}
+
+export interface AudioDownlink {
+  readonly format: AudioFormat;
+  /** Hand over one binary message from the server */
+  push: (data: ArrayBuffer) => void;
+  /** Resolves once everything pushed so far has reached the sink */
+  flush: () => Promise<void>;
+  /** Drop anything still being decoded (barge-in, reconnect) */
+  reset: () => void;
+  close: () => void;
+}
+
+/**
+ * Route TTS binary frames to `sink`, decoding Opus first when negotiated.
+ * A decoder failure closes it for good and is reported to `onError`; later
+ * frames are dropped until the caller switches format.
+ */
+export const createAudioDownlink = (
+  format: AudioFormat,
+  sink: PcmSink,
+  onError?: (err: Error) => void,
+): AudioDownlink => {
+  if (format !== OPUS_FORMAT) {
+    return {
+      format,
+      push: (data) => sink.enqueuePcm16(data),
+      flush: () => Promise.resolve(),
+      reset: () => {},
+      close: () => {},
+    };
+  }
+
+  let timestampUs = 0;
+  const decoder = new AudioDecoder({
+    output: (audio) => {
+      const samples = new Float32Array(audio.numberOfFrames);
+      audio.copyTo(samples, { planeIndex: 0, format: "f32-planar" });
+      sink.enqueueFloat32(samples, audio.sampleRate);
+      audio.close();
+    },
+    error: (err) => {
+      if (typeof onError === "function") onError(err);
+    },
+  });
+  decoder.configure(OPUS_DECODER_CONFIG);
+
+  return {
+    format,
+    push: (data) => {
+      if (decoder.state !== "configured") return;
+      decoder.decode(new EncodedAudioChunk({ type: "key", timestamp: timestampUs, data }));
+      timestampUs += OPUS_FRAME_US;
+    },
+    flush: () => (decoder.state === "configured" ? decoder.flush().catch(() => {}) : Promise.resolve()),
+    reset: () => {
+      if (decoder.state === "closed") return;
+      decoder.reset();
+      decoder.configure(OPUS_DECODER_CONFIG);
+    },
+    close: () => {
+      if (decoder.state !== "closed") decoder.close();
+    },
+  };
+};
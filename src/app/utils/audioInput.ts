@@ -0,0 +1,297 @@
+/**
+ * Audio input sources and the capture pipeline shared by every consumer.
+ *
+ * Whatever the source — the microphone, a `MediaStream` supplied by the
+ * caller, or a decoded file — samples go through the same filtered resample
+ * to 16 kHz and the same 20 ms framing before reaching the frame handler.
+ */
+
+import { FrameAccumulator, StreamingResampler } from "./resampler";
+
+export const TARGET_SAMPLE_RATE = 16000;
+export const FRAME_SIZE = 320; // 20 ms @ 16 kHz
+const CAPTURE_BLOCK_SIZE = 1024;
+const CAPTURE_WORKLET_URL = "/worklets/pcm16-capture-processor.js";
+const CAPTURE_WORKLET_NAME = "pcm16-capture";
+/* Files are decoded at a common device rate so they take the same resampling path as a mic */
+const FILE_DECODE_RATE = 48000;
+/* How often a file source releases the samples that are due */
+const FILE_TICK_MS = 20;
+
+export type AudioInputSource =
+  /** Live microphone via `getUserMedia` with voice processing */
+  | { kind: "microphone"; deviceId?: string | null }
+  /** A stream the caller owns; its tracks are left running on stop */
+  | { kind: "stream"; stream: MediaStream }
+  /** Encoded audio (decoded here) or a decoded buffer, played `speed` times real time (default 1) */
+  | { kind: "file"; audio: Blob | ArrayBuffer | AudioBuffer; speed?: number };
+
+/** Receives one finished 20 ms PCM16 frame and its RMS energy. */
+export type FrameHandler = (frame: Int16Array, rms: number) => void;
+
+export interface AudioCapture {
+  /** The live input, e.g. for call recording; null for file sources */
+  stream: MediaStream | null;
+  /** Resolves when the input runs out: a file played to the end or a stream track ended */
+  ended: Promise<void>;
+  stop: () => void;
+}
+
+/* ────────────────────────────────────────────────────
+ *  Input selection
+ * ──────────────────────────────────────────────────── */
+
+/**
+ * Voice-call processing, on the given input device if any. The device is a
+ * preference so an unplugged one falls back to the default instead of failing.
+ */
+export const micConstraints = (deviceId?: string | null): MediaTrackConstraints => ({
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  ...(deviceId ? { deviceId: { ideal: deviceId } } : {}),
+});
+
+/* ────────────────────────────────────────────────────
+ *  Resampling and framing
+ * ──────────────────────────────────────────────────── */
+
+interface CaptureNode {
+  disconnect: () => void;
+}
+
+/**
+ * Convert one Float32 frame to PCM16 and measure its RMS energy.
+ */
+const toPcm16Frame = (frame: Float32Array): { pcm16: Int16Array; rms: number } => {
+  const pcm16 = new Int16Array(frame.length);
+  let energySum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    const s = Math.max(-1, Math.min(1, frame[i]));
+    energySum += s * s;
+    pcm16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return { pcm16, rms: Math.sqrt(energySum / frame.length) };
+};
+
+/**
+ * Main-thread resample-and-frame chain: feed mono blocks of any size at
+ * `inputRate`, get 20 ms frames out. Remainders carry to the next block.
+ *
+ * Mirrors `public/worklets/pcm16-capture-processor.js` — keep the two in sync.
+ */
+const createFramer = (inputRate: number, onFrame: FrameHandler) => {
+  const resampler = new StreamingResampler(inputRate, TARGET_SAMPLE_RATE);
+  const accumulator = new FrameAccumulator(FRAME_SIZE);
+  return (input: Float32Array) => {
+    accumulator.push(resampler.process(input), (frame) => {
+      const { pcm16, rms } = toPcm16Frame(frame);
+      onFrame(pcm16, rms);
+    });
+  };
+};
+
+/**
+ * Capture on the audio rendering thread via an AudioWorklet. Resampling and
+ * framing happen inside the processor; only finished frames cross threads.
+ */
+const createWorkletCapture = async (
+  audioContext: AudioContext,
+  source: AudioNode,
+  onFrame: FrameHandler,
+): Promise<CaptureNode> => {
+  await audioContext.audioWorklet.addModule(CAPTURE_WORKLET_URL);
+
+  const node = new AudioWorkletNode(audioContext, CAPTURE_WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    // Mix the input down to mono before the processor, which reads channel 0
+    channelCount: 1,
+    channelCountMode: "explicit",
+    channelInterpretation: "speakers",
+    processorOptions: {
+      targetSampleRate: TARGET_SAMPLE_RATE,
+      frameSize: FRAME_SIZE,
+    },
+  });
+
+  node.port.onmessage = (event: MessageEvent<{ pcm: ArrayBuffer; rms: number }>) => {
+    onFrame(new Int16Array(event.data.pcm), event.data.rms);
+  };
+
+  source.connect(node);
+  node.connect(audioContext.destination);
+
+  return {
+    disconnect: () => {
+      node.port.onmessage = null;
+      node.port.close();
+      node.disconnect();
+    },
+  };
+};
+
+/**
+ * Fallback for browsers without `audioWorklet`: the same pipeline on the main
+ * thread through the deprecated ScriptProcessorNode.
+ */
+const createScriptProcessorCapture = (
+  audioContext: AudioContext,
+  source: AudioNode,
+  onFrame: FrameHandler,
+): CaptureNode => {
+  const processor = audioContext.createScriptProcessor(CAPTURE_BLOCK_SIZE, 1, 1);
+  const frame = createFramer(audioContext.sampleRate, onFrame);
+
+  processor.onaudioprocess = (event: AudioProcessingEvent) => {
+    frame(event.inputBuffer.getChannelData(0));
+  };
+
+  // Connect the graph
+  source.connect(processor);
+  processor.connect(audioContext.destination);
+
+  return {
+    disconnect: () => {
+      processor.onaudioprocess = null;
+      processor.disconnect();
+    },
+  };
+};
+
+/* ────────────────────────────────────────────────────
+ *  Sources
+ * ──────────────────────────────────────────────────── */
+
+/* Live input through the Web Audio graph, in a worklet where available */
+const captureStream = async (
+  stream: MediaStream,
+  ownsStream: boolean,
+  onFrame: FrameHandler,
+): Promise<AudioCapture> => {
+  const AudioContextCtor =
+    window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  // Run at the device's native rate; the resampler handles 44.1k / 48k / 96k
+  const audioContext = new AudioContextCtor();
+
+  // MUST resume after user gesture
+  if (audioContext.state === "suspended") {
+    await audioContext.resume();
+  }
+
+  const source = audioContext.createMediaStreamSource(stream);
+
+  let capture: CaptureNode;
+  if (audioContext.audioWorklet && typeof AudioWorkletNode !== "undefined") {
+    try {
+      capture = await createWorkletCapture(audioContext, source, onFrame);
+    } catch {
+      capture = createScriptProcessorCapture(audioContext, source, onFrame);
+    }
+  } else {
+    capture = createScriptProcessorCapture(audioContext, source, onFrame);
+  }
+
+  const ended = new Promise<void>((resolve) => {
+    stream.getAudioTracks().forEach((track) => track.addEventListener("ended", () => resolve(), { once: true }));
+  });
+
+  return {
+    stream,
+    ended,
+    stop: () => {
+      capture.disconnect();
+      source.disconnect();
+      if (ownsStream) stream.getTracks().forEach((t) => t.stop());
+      if (audioContext.state !== "closed") audioContext.close();
+    },
+  };
+};
+
+const decodeAudio = async (audio: Blob | ArrayBuffer | AudioBuffer): Promise<AudioBuffer> => {
+  if (audio instanceof AudioBuffer) return audio;
+  const data = audio instanceof Blob ? await audio.arrayBuffer() : audio;
+  return new OfflineAudioContext(1, 1, FILE_DECODE_RATE).decodeAudioData(data);
+};
+
+/*
+ * Average the channels, as the live graph's mono inputs do (the worklet node
+ * and ScriptProcessor both mix down with an explicit `channelCount: 1`)
+ */
+const downmix = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+/*
+ * Decoded audio released on a timer at `speed` times real time, through the
+ * main-thread framer. No audio graph, so it is not tied to the audio clock.
+ */
+const captureFile = async (
+  audio: Blob | ArrayBuffer | AudioBuffer,
+  speed: number,
+  onFrame: FrameHandler,
+): Promise<AudioCapture> => {
+  if (!(speed > 0)) throw new RangeError(`Invalid file playback speed: ${speed}`);
+  const buffer = await decodeAudio(audio);
+  const samples = downmix(buffer);
+  const frame = createFramer(buffer.sampleRate, onFrame);
+  const startedAt = performance.now();
+  let position = 0;
+  let stopped = false;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  let resolveEnded = () => {};
+  const ended = new Promise<void>((resolve) => (resolveEnded = resolve));
+
+  const stop = () => {
+    stopped = true;
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const tick = () => {
+    const elapsedSec = (performance.now() - startedAt) / 1000;
+    const due = Math.min(samples.length, Math.floor(elapsedSec * buffer.sampleRate * speed));
+    // Same block size as the ScriptProcessor path; a handler may stop us mid-way
+    while (position < due && !stopped) {
+      const end = Math.min(position + CAPTURE_BLOCK_SIZE, due);
+      frame(samples.subarray(position, end));
+      position = end;
+    }
+    if (position >= samples.length && !stopped) {
+      stop();
+      resolveEnded();
+    }
+  };
+
+  timer = setInterval(tick, FILE_TICK_MS);
+
+  return { stream: null, ended, stop };
+};
+
+/**
+ * Open `input` and deliver it to `onFrame` as 16 kHz PCM16 in 20 ms frames.
+ */
+export const startAudioCapture = async (input: AudioInputSource, onFrame: FrameHandler): Promise<AudioCapture> => {
+  switch (input.kind) {
+    case "microphone": {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(input.deviceId) });
+      try {
+        return await captureStream(stream, true, onFrame);
+      } catch (err) {
+        stream.getTracks().forEach((t) => t.stop());
+        throw err;
+      }
+    }
+    case "stream":
+      return captureStream(input.stream, false, onFrame);
+    case "file":
+      return captureFile(input.audio, input.speed ?? 1, onFrame);
+  }
+};
@@ -1,7 +1,19 @@
 /**
- * Audio utility functions for recording, VAD, and streaming.
+ * Audio utility functions for recording, VAD, and streaming. Input sources
+ * and the capture pipeline live in `./audioInput`.
  */
 
+import { OPUS_FORMAT, createOpusEncoder, type AudioFormat, type FrameEncoder } from "./audioCodec";
+import {
+  FRAME_SIZE,
+  TARGET_SAMPLE_RATE,
+  micConstraints,
+  startAudioCapture,
+  type AudioInputSource,
+  type FrameHandler,
+} from "./audioInput";
+import { encodeClientMessage } from "./protocol";
+import { createVad, type VadEvent, type VoiceActivityDetector, type VoiceDetectorOptions } from "./vad";
 
 /* ── Module-level state for simple record/stop API ── */
 let mediaRecorder: MediaRecorder | null = null;
@@ -20,17 +32,12 @@ export interface RecordingHandle {
 /**
  * Start recording audio from the user's microphone.
  */
-export const startRecording = async (): Promise<RecordingHandle> => {
-  const stream = await navigator.mediaDevices.getUserMedia({
-    audio: {
-      echoCancellation: true,
-      noiseSuppression: true,
-      autoGainControl: true,
-    },
-  });
+export const startRecording = async (deviceId?: string | null): Promise<RecordingHandle> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(deviceId) });
 
-  const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
-  const audioContext: AudioContext = new AudioContextCtor();
+  const AudioContextCtor =
+    window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  const audioContext = new AudioContextCtor();
   const source = audioContext.createMediaStreamSource(stream);
   const analyser = audioContext.createAnalyser();
   analyser.fftSize = 256;
@@ -100,6 +107,33 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
+/**
+ * Wrap mono PCM16 frames in a WAV container.
+ */
+export const encodeWav = (frames: Int16Array[], sampleRate: number): Blob => {
+  const dataBytes = frames.reduce((sum, frame) => sum + frame.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, "RIFF");
+  header.setUint32(4, 36 + dataBytes, true);
+  writeAscii(8, "WAVE");
+  writeAscii(12, "fmt ");
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // byte rate
+  header.setUint16(32, 2, true); // block align
+  header.setUint16(34, 16, true); // bits per sample
+  writeAscii(36, "data");
+  header.setUint32(40, dataBytes, true);
+
+  return new Blob([header.buffer, ...frames.map((frame) => frame.buffer as ArrayBuffer)], { type: "audio/wav" });
+};
+
 /* ────────────────────────────────────────────────────
  *  Audio-level analysis
  * ──────────────────────────────────────────────────── */
@@ -118,6 +152,34 @@ export const getAudioLevel = (analyser: AnalyserNode | null): number => {
   return Math.min(average / 128, 1);
 };
 
+export interface MicMonitorHandle {
+  /** Read with `getAudioLevel` */
+  analyser: AnalyserNode;
+  stop: () => void;
+}
+
+/**
+ * Open an input for a live level meter without recording or streaming it.
+ */
+export const startMicMonitor = async (deviceId?: string | null): Promise<MicMonitorHandle> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(deviceId) });
+
+  const AudioContextCtor =
+    window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  const audioContext = new AudioContextCtor();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 256;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+
+  return {
+    analyser,
+    stop: () => {
+      stream.getTracks().forEach((track) => track.stop());
+      if (audioContext.state !== "closed") audioContext.close();
+    },
+  };
+};
+
 /* ────────────────────────────────────────────────────
  *  VAD-based single-utterance recording
  * ──────────────────────────────────────────────────── */
@@ -128,14 +190,31 @@ export interface VADOptions {
   silenceAfterSpeechMs?: number;
   noInputTimeoutMs?: number;
   onAudioLevel?: (level: number) => void;
+  /** Input device from `enumerateDevices` (default: system default) */
+  deviceId?: string | null;
+  /** Where the audio comes from; overrides `deviceId` (default: the microphone) */
+  input?: AudioInputSource;
+  /** Detector or detector settings; overrides `energyThreshold` / `silenceAfterSpeechMs` */
+  vad?: VoiceActivityDetector | VoiceDetectorOptions;
 }
 
+/* Use a ready detector as is, otherwise build one from settings and defaults */
+const resolveVad = (
+  vad: VoiceActivityDetector | VoiceDetectorOptions | undefined,
+  defaults: VoiceDetectorOptions,
+): VoiceActivityDetector => (vad && "process" in vad ? vad : createVad({ ...defaults, ...vad }));
+
 /**
- * Record a single utterance using simple energy-based VAD.
+ * Record a single utterance using the shared VAD (see `./vad`).
  *
  * - Starts listening immediately
- * - If user speaks → record until trailing silence, then return Blob
+ * - If user speaks → record until trailing silence, then return a WAV Blob
+ *   (16 kHz mono PCM16, exactly what the VAD saw)
  * - If user never speaks for `noInputTimeoutMs` → return null
+ *
+ * Timeouts count audio time, so a file source played faster than real time
+ * ends its utterance at the same point in the audio. A file that runs out
+ * ends the recording as if the user went quiet.
  */
 export const recordUtteranceWithVAD = async ({
   maxDurationMs = 30000,
@@ -143,148 +222,82 @@ export const recordUtteranceWithVAD = async ({
   silenceAfterSpeechMs = 600,
   noInputTimeoutMs = 5000,
   onAudioLevel,
+  deviceId,
+  input,
+  vad: vadOption,
 }: VADOptions = {}): Promise<Blob | null> => {
-  const stream = await navigator.mediaDevices.getUserMedia({
-    audio: {
-      echoCancellation: true,
-      noiseSuppression: true,
-      autoGainControl: true,
-    },
-  });
-
-  const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
-  const audioContext: AudioContext = new AudioContextCtor();
-  const source = audioContext.createMediaStreamSource(stream);
-  const analyser = audioContext.createAnalyser();
-  analyser.fftSize = 1024;
-  source.connect(analyser);
-
-  const recorder = new MediaRecorder(stream);
-  const chunks: Blob[] = [];
-  recorder.ondataavailable = (event: BlobEvent) => {
-    if (event.data && event.data.size > 0) {
-      chunks.push(event.data);
-    }
-  };
-  // Small timeslice so we flush data regularly
-  recorder.start(100);
-
-  const dataArray = new Uint8Array(analyser.fftSize);
-  const startTime = performance.now();
+  const vad = resolveVad(vadOption, { minThreshold: energyThreshold, silenceMs: silenceAfterSpeechMs });
+  const frameMs = (FRAME_SIZE / TARGET_SAMPLE_RATE) * 1000;
+  const samples = new Float32Array(FRAME_SIZE);
+  const frames: Int16Array[] = [];
 
   let speechStarted = false;
-  let lastSpeechTime: number | null = null;
-
-  let noiseSum = 0;
-  let noiseCount = 0;
-
-  return new Promise<Blob | null>((resolve, reject) => {
-    const cleanup = () => {
-      try {
-        stream.getTracks().forEach((t) => t.stop());
-      } catch (_) {
-        /* ignore */
-      }
-      if (audioContext && audioContext.state !== "closed") {
-        audioContext.close();
-      }
-    };
-
-    const finishWithBlob = () => {
-      recorder.onstop = () => {
-        const blob = new Blob(chunks, { type: "audio/webm" });
-        cleanup();
-        resolve(blob);
-      };
-      try {
-        recorder.stop();
-      } catch (err) {
-        cleanup();
-        reject(err);
-      }
-    };
-
-    const finishNoSpeech = () => {
-      try {
-        recorder.stop();
-      } catch (_) {
-        /* ignore */
-      }
-      cleanup();
-      resolve(null);
-    };
-
-    const tick = () => {
-      const now = performance.now();
-      const elapsed = now - startTime;
-
-      analyser.getByteTimeDomainData(dataArray);
-      let sumSquares = 0;
-      for (let i = 0; i < dataArray.length; i++) {
-        const v = (dataArray[i] - 128) / 128; // –1 … 1
-        sumSquares += v * v;
-      }
-      const rms = Math.sqrt(sumSquares / dataArray.length); // 0 … ~1
+  let settled = false;
+  let resolveResult: (blob: Blob | null) => void = () => {};
+  const result = new Promise<Blob | null>((resolve) => (resolveResult = resolve));
+
+  const finish = (blob: Blob | null) => {
+    if (settled) return;
+    settled = true;
+    resolveResult(blob);
+  };
+  const finishWithBlob = () => finish(encodeWav(frames, TARGET_SAMPLE_RATE));
 
-      if (typeof onAudioLevel === "function") {
-        const normalized = Math.min(rms * 8, 1); // boost into 0..1
-        onAudioLevel(normalized);
-      }
+  const handleFrame: FrameHandler = (frame, rms) => {
+    if (settled) return;
+    const elapsed = frames.length * frameMs;
+    frames.push(frame);
 
-      // Dynamic threshold from first 0.5 s of noise
-      if (!speechStarted && elapsed < 500) {
-        noiseSum += rms;
-        noiseCount += 1;
-      }
+    for (let i = 0; i < frame.length; i++) {
+      samples[i] = frame[i] / 32768;
+    }
+    const { event } = vad.process(samples, elapsed);
 
-      let threshold = energyThreshold;
-      if (!speechStarted && noiseCount > 0) {
-        const estNoise = noiseSum / noiseCount;
-        threshold = Math.max(threshold, estNoise * 3.0);
-      }
+    if (typeof onAudioLevel === "function") {
+      const normalized = Math.min(rms * 8, 1); // boost into 0..1
+      onAudioLevel(normalized);
+    }
 
-      if (rms >= threshold) {
-        speechStarted = true;
-        lastSpeechTime = now;
-      }
+    if (event === "speech_start") speechStarted = true;
 
-      // Global "no speech at all" timeout
-      if (!speechStarted && elapsed >= noInputTimeoutMs) {
-        finishNoSpeech();
-        return;
-      }
+    // Global "no speech at all" timeout
+    if (!speechStarted && elapsed >= noInputTimeoutMs) {
+      finish(null);
+      return;
+    }
 
-      if (speechStarted) {
-        if (rms >= threshold) {
-          lastSpeechTime = now;
-        }
-
-        const silenceElapsed = now - (lastSpeechTime ?? now);
-        if (silenceElapsed >= silenceAfterSpeechMs) {
-          finishWithBlob();
-          return;
-        }
-        if (elapsed >= maxDurationMs) {
-          finishWithBlob();
-          return;
-        }
-      }
+    if (speechStarted && (event === "speech_end" || elapsed >= maxDurationMs)) {
+      finishWithBlob();
+    }
+  };
 
-      requestAnimationFrame(tick);
-    };
+  const capture = await startAudioCapture(input ?? { kind: "microphone", deviceId }, handleFrame);
+  capture.ended.then(() => (speechStarted ? finishWithBlob() : finish(null)));
 
-    tick();
-  });
+  try {
+    return await result;
+  } finally {
+    capture.stop();
+  }
 };
 
 /* ────────────────────────────────────────────────────
  *  Continuous PCM16 streaming over WebSocket
  * ──────────────────────────────────────────────────── */
-
 export interface StreamingMicHandle {
+  /** The captured live stream, e.g. for call recording; null for file input */
+  stream: MediaStream | null;
+  /** Resolves when the input runs out (a file played to the end) */
+  ended: Promise<void>;
   stop: () => void;
 }
 
+/** Anything the mic can stream into: a WebSocket or a reconnecting wrapper. */
+export interface UplinkSocket {
+  readonly readyState: number;
+  send: (data: string | ArrayBufferLike) => void;
+}
+
 export interface StreamingMicOptions {
   /** RMS energy floor before dynamic calibration (default 0.01) */
   energyThreshold?: number;
@@ -294,18 +307,63 @@ export interface StreamingMicOptions {
   onSpeechStart?: () => void;
   /** Called when VAD detects the user stopped speaking */
   onSpeechEnd?: () => void;
+  /** Returns true while assistant audio is playing; enables barge-in detection */
+  isPlaybackActive?: () => boolean;
+  /** Barge-in tuning, read every frame so it can change mid-call; null disables */
+  getBargeInOptions?: () => BargeInOptions | null;
+  /** Called once per playback turn when sustained user speech is heard over it */
+  onBargeIn?: () => void;
+  /** Input device from `enumerateDevices` (default: system default) */
+  deviceId?: string | null;
+  /** Where the audio comes from; overrides `deviceId` (default: the microphone) */
+  input?: AudioInputSource;
+  /** Detector or detector settings; overrides `energyThreshold` / `silenceMs` */
+  vad?: VoiceActivityDetector | VoiceDetectorOptions;
+  /** Uplink format negotiated for the current connection, read every frame (default PCM16) */
+  getUplinkFormat?: () => AudioFormat;
+  /**
+   * Called once if the Opus encoder fails. Opus is not retried; frames are
+   * dropped until `getUplinkFormat` returns PCM16 (renegotiate with the server).
+   */
+  onEncoderError?: (err: Error) => void;
+  /** Called for every frame sent, with what the VAD made of it */
+  onFrame?: (frame: StreamingFrameInfo) => void;
+}
+
+export interface StreamingFrameInfo {
+  /** Audio time since capture started */
+  timeMs: number;
+  rms: number;
+  /** VAD speech-onset threshold for this frame */
+  threshold: number;
+  speaking: boolean;
+  event: VadEvent | null;
+}
+
+export interface BargeInOptions {
+  /** Continuous speech in ms over playback before interrupting (default 300) */
+  minSpeechMs?: number;
+  /** Energy multiple over the VAD threshold required during playback (default 2.5) */
+  thresholdScale?: number;
 }
 
 /**
  * Start streaming raw PCM16 audio to a WebSocket at 16 kHz in 20 ms frames
  * (320 samples per frame — required for server-side VAD).
  *
- * Built-in energy-based VAD automatically sends JSON
+ * Audio comes from `input` (see `./audioInput`): the microphone by default,
+ * or a caller's `MediaStream` or an audio file. Every source is low-pass
+ * filtered before resampling, and samples that do not fill a frame carry
+ * over to the next callback so the stream reaches the socket intact.
+ *
+ * The shared VAD (`./vad`, energy strategy unless `vad` says otherwise) sends JSON
  * `{ "type": "speech_start" }` and `{ "type": "speech_end" }` messages
- * bracketing each utterance. PCM16 frames are streamed continuously.
+ * bracketing each utterance. Frames are streamed continuously while `ws` is
+ * open and dropped while it is not — as PCM16, or as one Opus packet each
+ * when `getUplinkFormat` says so. The encoder starts fresh per connection.
  */
 export const startStreamingMic = async (
-  ws: WebSocket,
+  ws: UplinkSocket,
   onAudioLevel?: (level: number) => void,
   options: StreamingMicOptions = {},
 ): Promise<StreamingMicHandle> => {
@@ -314,130 +372,128 @@ export const startStreamingMic = async (
     silenceMs = 600,
     onSpeechStart,
     onSpeechEnd,
+    isPlaybackActive,
+    getBargeInOptions,
+    onBargeIn,
+    deviceId,
+    input,
+    vad: vadOption,
+    getUplinkFormat,
+    onEncoderError,
+    onFrame,
   } = options;
 
-  const stream = await navigator.mediaDevices.getUserMedia({
-    audio: {
-      echoCancellation: true,
-      noiseSuppression: true,
-      autoGainControl: true,
-    },
-  });
-
-  const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
-  const audioContext: AudioContext = new AudioContextCtor({ sampleRate: 48000 });
-
-  // MUST resume after user gesture
-  if (audioContext.state === "suspended") {
-    await audioContext.resume();
-  }
-
-  const source = audioContext.createMediaStreamSource(stream);
-  const processor = audioContext.createScriptProcessor(1024, 1, 1);
-
-  // Connect the graph
-  source.connect(processor);
-  processor.connect(audioContext.destination);
-
   /* ── VAD state ── */
-  let framesSent = 0;
+  const vad = resolveVad(vadOption, { minThreshold: energyThreshold, silenceMs });
+  const frameMs = (FRAME_SIZE / TARGET_SAMPLE_RATE) * 1000;
+  const samples = new Float32Array(FRAME_SIZE);
   let isSpeaking = false;
-  let lastSpeechTs = 0;         // ms timestamp of last above-threshold frame
-  let noiseSum = 0;
-  let noiseCount = 0;
-  const calibrationMs = 500;    // first 0.5 s used for noise-floor estimation
-  const streamStartTime = performance.now();
-
-  processor.onaudioprocess = (event: AudioProcessingEvent) => {
-    if (ws.readyState !== WebSocket.OPEN) return;
-
-    const input = event.inputBuffer.getChannelData(0);
-
-    // ── Downsample to 16 kHz ──
-    const targetSampleRate = 16000;
-    const ratio = audioContext.sampleRate / targetSampleRate;
-    const newLength = Math.floor(input.length / ratio);
-    const downsampled = new Float32Array(newLength);
-
-    for (let i = 0; i < newLength; i++) {
-      downsampled[i] = input[Math.floor(i * ratio)];
-    }
-
-    // ── Compute RMS energy on downsampled buffer ──
-    let energySum = 0;
-    for (let i = 0; i < downsampled.length; i++) {
-      energySum += downsampled[i] * downsampled[i];
+  let frameCount = 0;           // audio time in frames; callbacks may batch several
+
+  /* ── Barge-in state ── */
+  let bargeInRunMs = 0;         // continuous loud speech heard over playback
+  let bargedInThisTurn = false;
+
+  /* ── Opus uplink, created on first use ── */
+  let encoder: FrameEncoder | null = null;
+  let encoderFailed = false;    // a failing config would fail again every frame
+  const closeEncoder = () => {
+    encoder?.close();
+    encoder = null;
+  };
+  /* Stop encoding for good; the caller falls back to PCM16 */
+  const failEncoder = (err: Error) => {
+    if (encoderFailed) return;
+    encoderFailed = true;
+    closeEncoder();
+    if (typeof onEncoderError === "function") onEncoderError(err);
+  };
+  const sendFrame = (frame: Int16Array) => {
+    const format = typeof getUplinkFormat === "function" ? getUplinkFormat() : null;
+    if (format !== OPUS_FORMAT) {
+      closeEncoder();
+      ws.send(frame.buffer);
+      return;
     }
-    const rms = Math.sqrt(energySum / downsampled.length);
-
-    // ── Dynamic noise-floor calibration (first 0.5 s) ──
-    const elapsed = performance.now() - streamStartTime;
-    if (elapsed < calibrationMs) {
-      noiseSum += rms;
-      noiseCount += 1;
+    if (encoderFailed) return;
+    try {
+      // Constructing or configuring the encoder throws on an unsupported config
+      encoder ??= createOpusEncoder((packet) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(packet);
+      }, failEncoder);
+      encoder.encode(frame);
+    } catch (err) {
+      failEncoder(err instanceof Error ? err : new Error(String(err)));
     }
+  };
 
-    let threshold = energyThreshold;
-    if (noiseCount > 0) {
-      const estNoise = noiseSum / noiseCount;
-      threshold = Math.max(energyThreshold, estNoise * 3.0);
+  const handleFrame: FrameHandler = (frame, rms) => {
+    const timeMs = frameCount * frameMs;
+    frameCount += 1;
+    if (ws.readyState !== WebSocket.OPEN) {
+      // The next connection's decoder expects a fresh stream
+      closeEncoder();
+      return;
     }
 
     // ── VAD decision ──
-    const now = performance.now();
-
-    if (rms >= threshold) {
-      lastSpeechTs = now;
-
-      if (!isSpeaking) {
-        isSpeaking = true;
-        ws.send(JSON.stringify({ type: "speech_start" }));
-        if (typeof onSpeechStart === "function") onSpeechStart();
-      }
-    } else if (isSpeaking) {
-      const silenceElapsed = now - lastSpeechTs;
-      if (silenceElapsed >= silenceMs) {
-        isSpeaking = false;
-        ws.send(JSON.stringify({ type: "speech_end" }));
-        if (typeof onSpeechEnd === "function") onSpeechEnd();
-      }
+    for (let i = 0; i < frame.length; i++) {
+      samples[i] = frame[i] / 32768;
     }
-
-    // ── Float32 → PCM16 ──
-    const pcm16 = new Int16Array(downsampled.length);
-    for (let i = 0; i < downsampled.length; i++) {
-      const s = Math.max(-1, Math.min(1, downsampled[i]));
-      pcm16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    const { event, threshold, speaking } = vad.process(samples, timeMs);
+
+    if (event === "speech_start") {
+      isSpeaking = true;
+      ws.send(encodeClientMessage({ type: "speech_start" }));
+      if (typeof onSpeechStart === "function") onSpeechStart();
+    } else if (event === "speech_end") {
+      isSpeaking = false;
+      ws.send(encodeClientMessage({ type: "speech_end" }));
+      if (typeof onSpeechEnd === "function") onSpeechEnd();
     }
 
-    // ── 20 ms frame chunking (REQUIRED FOR VAD) ──
-    const FRAME_SIZE = 320; // 20 ms @ 16 kHz
-
-    for (let i = 0; i < pcm16.length; i += FRAME_SIZE) {
-      const frame = pcm16.slice(i, i + FRAME_SIZE);
-      if (frame.length === FRAME_SIZE) {
-        ws.send(frame.buffer);
-        framesSent++;
+    // ── Barge-in: sustained speech well above threshold while playback runs ──
+    // Speaker echo after AEC stays close to the threshold, so a higher bar and
+    // a minimum duration keep it from cutting the assistant off.
+    const playbackActive = typeof isPlaybackActive === "function" && isPlaybackActive();
+    const bargeIn = playbackActive && typeof getBargeInOptions === "function"
+      ? getBargeInOptions()
+      : null;
+    if (bargeIn) {
+      const { minSpeechMs = 300, thresholdScale = 2.5 } = bargeIn;
+      bargeInRunMs = rms >= threshold * thresholdScale ? bargeInRunMs + frameMs : 0;
+      if (!bargedInThisTurn && bargeInRunMs >= minSpeechMs) {
+        bargedInThisTurn = true;
+        bargeInRunMs = 0;
+        if (typeof onBargeIn === "function") onBargeIn();
       }
+    } else {
+      bargeInRunMs = 0;
+      if (!playbackActive) bargedInThisTurn = false;
     }
 
+    sendFrame(frame);
+    if (typeof onFrame === "function") onFrame({ timeMs, rms, threshold, speaking, event });
+
     // ── Optional audio level callback ──
     if (typeof onAudioLevel === "function") {
       onAudioLevel(Math.min(rms * 8, 1));
     }
   };
 
+  const capture = await startAudioCapture(input ?? { kind: "microphone", deviceId }, handleFrame);
+
   return {
+    stream: capture.stream,
+    ended: capture.ended,
     stop: () => {
       // If still speaking when stopped, send a final speech_end
       if (isSpeaking && ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ type: "speech_end" }));
+        ws.send(encodeClientMessage({ type: "speech_end" }));
         if (typeof onSpeechEnd === "function") onSpeechEnd();
       }
-      processor.disconnect();
-      source.disconnect();
-      stream.getTracks().forEach((t) => t.stop());
-      audioContext.close();
+      capture.stop();
+      closeEncoder();
     },
   };
 };
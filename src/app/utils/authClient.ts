@@ -0,0 +1,59 @@
+/**
+ * Browser calls to the `/api/auth/*` routes.
+ */
+
+import type { AuthErrorCode, AuthUser, SessionResponse } from "@/lib/auth/types";
+
+/** A route's error code, or what went wrong before one arrived */
+export type AuthError = AuthErrorCode | "network" | "unknown";
+
+export type AuthResult<T> = { ok: true; data: T } | { ok: false; error: AuthError };
+
+const AUTH_ERROR_CODES: AuthErrorCode[] = [
+  "invalid_phone",
+  "invalid_email",
+  "invalid_code",
+  "wrong_code",
+  "too_soon",
+  "delivery_failed",
+];
+
+const toAuthError = (code: unknown): AuthError =>
+  AUTH_ERROR_CODES.includes(code as AuthErrorCode) ? (code as AuthErrorCode) : "unknown";
+
+const postJson = async <T>(url: string, body: unknown): Promise<AuthResult<T>> => {
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) return { ok: false, error: toAuthError(data.error) };
+    return { ok: true, data: data as T };
+  } catch {
+    return { ok: false, error: "network" };
+  }
+};
+
+export const requestOtp = (phone: string) => postJson<{ phone: string }>("/api/auth/otp/request", { phone });
+
+export const verifyOtp = (phone: string, code: string) =>
+  postJson<{ user: AuthUser }>("/api/auth/otp/verify", { phone, code });
+
+/** `returnTo` is the path the emailed link should land on */
+export const requestMagicLink = (email: string, returnTo?: string) =>
+  postJson<{ email: string }>("/api/auth/magic-link/request", { email, returnTo });
+
+export const signOut = () => postJson<{ user: null }>("/api/auth/signout", {});
+
+/** Current session; guests (and network failures) get a null user. */
+export const fetchSession = async (): Promise<SessionResponse> => {
+  try {
+    const res = await fetch("/api/auth/session", { cache: "no-store" });
+    if (res.ok) return (await res.json()) as SessionResponse;
+  } catch {
+    // treat as signed out
+  }
+  return { user: null, callToken: null };
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { INITIAL_CALL_STATE, transition, type CallEvent, type CallPhase, type CallState } from "./callMachine";
+
+const active = (phase: CallPhase): CallState => ({ flow: "active", phase });
+
+const run = (state: CallState, ...events: CallEvent[]): CallState => events.reduce(transition, state);
+
+describe("transition: setup steps", () => {
+  it("walks a guest from the hero to a connecting call", () => {
+    expect(
+      run(
+        INITIAL_CALL_STATE,
+        { type: "start", signedIn: false },
+        { type: "continue_as_guest" },
+        { type: "mic_checked" },
+        { type: "paid" },
+      ),
+    ).toEqual(active("connecting"));
+  });
+
+  it("skips identification for signed-in users", () => {
+    expect(transition(INITIAL_CALL_STATE, { type: "start", signedIn: true })).toEqual({ flow: "micCheck" });
+  });
+
+  it("goes back to identification on sign-out", () => {
+    expect(transition({ flow: "payment" }, { type: "signed_out" })).toEqual({ flow: "auth" });
+  });
+
+  it("connects a top-up paid after the call ended", () => {
+    expect(transition(INITIAL_CALL_STATE, { type: "paid" })).toEqual(active("connecting"));
+  });
+
+  it("returns to the hero when the sheet is closed", () => {
+    for (const flow of ["auth", "micCheck", "payment"] as const) {
+      expect(transition({ flow }, { type: "cancel" })).toBe(INITIAL_CALL_STATE);
+    }
+  });
+
+  it("returns the same state object for events that don't apply", () => {
+    const auth: CallState = { flow: "auth" };
+    expect(transition(auth, { type: "paid" })).toBe(auth);
+    expect(transition(auth, { type: "mic_checked" })).toBe(auth);
+    expect(transition(INITIAL_CALL_STATE, { type: "cancel" })).toBe(INITIAL_CALL_STATE);
+    expect(transition(INITIAL_CALL_STATE, { type: "connected" })).toBe(INITIAL_CALL_STATE);
+  });
+});
+
+describe("transition: rejoin", () => {
+  it("connects from the hero", () => {
+    expect(transition(INITIAL_CALL_STATE, { type: "rejoin" })).toEqual(active("connecting"));
+  });
+
+  it("is ignored anywhere else", () => {
+    const states: CallState[] = [{ flow: "auth" }, { flow: "micCheck" }, { flow: "payment" }, active("listening")];
+    for (const state of states) {
+      expect(transition(state, { type: "rejoin" })).toBe(state);
+    }
+  });
+});
+
+describe("transition: live call", () => {
+  it("alternates listening and speaking", () => {
+    const listening = transition(active("connecting"), { type: "connected" });
+    expect(listening).toEqual(active("listening"));
+    const speaking = transition(listening, { type: "reply_started" });
+    expect(speaking).toEqual(active("speaking"));
+    expect(transition(speaking, { type: "reply_finished" })).toEqual(active("listening"));
+  });
+
+  it("reconnects after a drop and resumes listening", () => {
+    expect(run(active("speaking"), { type: "connection_lost" }, { type: "connected" })).toEqual(active("listening"));
+  });
+
+  it("ignores a late reply while reconnecting", () => {
+    const reconnecting = active("reconnecting");
+    expect(transition(reconnecting, { type: "reply_started" })).toBe(reconnecting);
+    expect(transition(reconnecting, { type: "reply_finished" })).toBe(reconnecting);
+  });
+
+  it("does not mark an ending call as dropped when the server hangs up", () => {
+    const ending = transition(active("listening"), { type: "time_up" });
+    expect(ending).toEqual(active("ending"));
+    expect(transition(ending, { type: "connection_failed" })).toBe(ending);
+  });
+
+  it("leaves the call only on end", () => {
+    expect(transition(active("dropped"), { type: "end" })).toBe(INITIAL_CALL_STATE);
+    expect(transition(active("speaking"), { type: "end" })).toBe(INITIAL_CALL_STATE);
+  });
+});
+
+describe("transition: ended phases are terminal", () => {
+  const events: CallEvent[] = [
+    { type: "connected" },
+    { type: "connection_lost" },
+    { type: "connection_failed" },
+    { type: "reply_started" },
+    { type: "reply_finished" },
+    { type: "time_up" },
+    { type: "rejoin" },
+    { type: "paid" },
+  ];
+
+  for (const phase of ["dropped", "ending"] as const) {
+    it(`stays ${phase} until the call is closed`, () => {
+      const state = active(phase);
+      for (const event of events) {
+        expect(transition(state, event)).toBe(state);
+      }
+    });
+  }
+});
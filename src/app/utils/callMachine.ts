@@ -0,0 +1,111 @@
+/**
+ * The creator page's flow, from the hero to the end of a call, as one state
+ * machine.
+ *
+ * Every UI step and call phase is a state, and every change goes through
+ * `transition`. An event that makes no sense in the current state (a late
+ * `tts_end` after the socket dropped, a second `paid`) is ignored and the
+ * same state object is returned, so React skips the render.
+ */
+
+export type FlowState = "idle" | "auth" | "micCheck" | "payment" | "active";
+
+/** Where a live call is; `ending` and `dropped` are its end states */
+export type CallPhase = "connecting" | "listening" | "speaking" | "reconnecting" | "dropped" | "ending";
+
+export type CallState =
+  | { flow: "idle" | "auth" | "micCheck" | "payment" }
+  | { flow: "active"; phase: CallPhase };
+
+export type CallEvent =
+  /** "Start Session"; signed-in users skip identification */
+  | { type: "start"; signedIn: boolean }
+  | { type: "signed_in" }
+  | { type: "sign_in_failed" }
+  | { type: "signed_out" }
+  | { type: "continue_as_guest" }
+  | { type: "mic_checked" }
+  /** Closed the sign-in / mic check / payment sheet */
+  | { type: "cancel" }
+  /** Payment verified; the call connects. Also a top-up that settled after its call ended */
+  | { type: "paid" }
+  /** A session saved before a reload is rejoined */
+  | { type: "rejoin" }
+  /** The socket finished its handshake (first time or after a reconnect) */
+  | { type: "connected" }
+  | { type: "connection_lost" }
+  /** Reconnecting gave up, the resume was refused or the server hung up */
+  | { type: "connection_failed" }
+  /** Assistant audio started */
+  | { type: "reply_started" }
+  /** Assistant audio finished playing or was cut off by the user */
+  | { type: "reply_finished" }
+  /** `session_expired`: the last reply may finish, nothing new starts */
+  | { type: "time_up" }
+  | { type: "end" };
+
+export const INITIAL_CALL_STATE: CallState = { flow: "idle" };
+
+/* Steps of the sheet before the call, where the user can back out */
+const SETUP_FLOWS: FlowState[] = ["auth", "micCheck", "payment"];
+const CONNECTED_PHASES: CallPhase[] = ["listening", "speaking"];
+
+const connecting: CallState = { flow: "active", phase: "connecting" };
+
+/* The next phase of a live call, or null when the event doesn't apply */
+const nextPhase = (phase: CallPhase, event: CallEvent): CallPhase | null => {
+  switch (event.type) {
+    case "connected":
+      return phase === "connecting" || phase === "reconnecting" ? "listening" : null;
+    case "connection_lost":
+      return phase === "connecting" || CONNECTED_PHASES.includes(phase) ? "reconnecting" : null;
+    case "connection_failed":
+      // Once time is up the call is ending anyway; a hang-up then is expected
+      return phase === "ending" || phase === "dropped" ? null : "dropped";
+    case "reply_started":
+      return CONNECTED_PHASES.includes(phase) ? "speaking" : null;
+    case "reply_finished":
+      return phase === "speaking" ? "listening" : null;
+    case "time_up":
+      return phase === "dropped" || phase === "ending" ? null : "ending";
+    default:
+      return null;
+  }
+};
+
+/**
+ * The state after `event`, or `state` itself when the event is not allowed.
+ * Usable directly as a `useReducer` reducer.
+ */
+export const transition = (state: CallState, event: CallEvent): CallState => {
+  if (state.flow === "active") {
+    if (event.type === "end") return INITIAL_CALL_STATE;
+    const phase = nextPhase(state.phase, event);
+    return phase && phase !== state.phase ? { flow: "active", phase } : state;
+  }
+
+  switch (event.type) {
+    case "start":
+      if (state.flow !== "idle") return state;
+      return { flow: event.signedIn ? "micCheck" : "auth" };
+    case "signed_in":
+      // Magic links land back on the page before the sheet is open
+      return state.flow === "idle" || state.flow === "auth" ? { flow: "micCheck" } : state;
+    case "sign_in_failed":
+      return state.flow === "idle" ? { flow: "auth" } : state;
+    case "signed_out":
+      return state.flow === "micCheck" || state.flow === "payment" ? { flow: "auth" } : state;
+    case "continue_as_guest":
+      return state.flow === "auth" ? { flow: "micCheck" } : state;
+    case "mic_checked":
+      return state.flow === "micCheck" ? { flow: "payment" } : state;
+    case "cancel":
+      return SETUP_FLOWS.includes(state.flow) ? INITIAL_CALL_STATE : state;
+    case "paid":
+      return state.flow === "payment" || state.flow === "idle" ? connecting : state;
+    case "rejoin":
+      return state.flow === "idle" ? connecting : state;
+    default:
+      return state;
+  }
+};
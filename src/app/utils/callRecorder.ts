@@ -0,0 +1,81 @@
+/**
+ * Records a whole call — the user's mic and the assistant's TTS — into one
+ * compressed audio file.
+ */
+
+export interface CallRecorder {
+  /** Unix ms when recording began */
+  readonly startedAt: number;
+  readonly mimeType: string;
+  /** Mix in the mic; the mic may start after the recorder does */
+  addMicStream: (stream: MediaStream) => void;
+  /** Finish and return the recording, or null if nothing was captured */
+  stop: () => Promise<Blob | null>;
+}
+
+/* First supported wins; Safari only records mp4 */
+const MIME_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"];
+
+/* Hand data to the recorder every second so a crash loses little */
+const TIMESLICE_MS = 1000;
+
+export const isCallRecordingSupported = (): boolean =>
+  typeof window !== "undefined" && typeof MediaRecorder !== "undefined";
+
+/**
+ * Start recording the mix of `ttsOutput` (the playback engine's output node)
+ * and the mic. Mixing happens in the TTS node's AudioContext, so both sides
+ * share one clock and stay in sync.
+ */
+export const startCallRecorder = (ttsOutput: AudioNode, micStream: MediaStream | null): CallRecorder => {
+  const ctx = ttsOutput.context as AudioContext;
+  const destination = ctx.createMediaStreamDestination();
+  ttsOutput.connect(destination);
+
+  let micSource: MediaStreamAudioSourceNode | null = null;
+  const addMicStream = (stream: MediaStream) => {
+    micSource?.disconnect();
+    micSource = ctx.createMediaStreamSource(stream);
+    micSource.connect(destination);
+  };
+  if (micStream) addMicStream(micStream);
+
+  const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+  const recorder = new MediaRecorder(destination.stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event: BlobEvent) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(TIMESLICE_MS);
+
+  const release = () => {
+    micSource?.disconnect();
+    micSource = null;
+    try {
+      ttsOutput.disconnect(destination);
+    } catch {
+      // already disconnected (context closed)
+    }
+  };
+
+  const stop = (): Promise<Blob | null> =>
+    new Promise((resolve) => {
+      if (recorder.state === "inactive") {
+        release();
+        resolve(null);
+        return;
+      }
+      recorder.onstop = () => {
+        release();
+        resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType || "audio/webm" }) : null);
+      };
+      recorder.stop();
+    });
+
+  return {
+    startedAt: Date.now(),
+    mimeType: recorder.mimeType || "audio/webm",
+    addMicStream,
+    stop,
+  };
+};
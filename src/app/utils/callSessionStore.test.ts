@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearCallSession,
+  loadCallSession,
+  saveCallSession,
+  updateCallSession,
+  type SavedCallSession,
+} from "./callSessionStore";
+
+const STORAGE_KEY = "active-call-session";
+
+/* In-memory stand-in for the tab's sessionStorage */
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+};
+
+const session = (overrides: Partial<SavedCallSession> = {}): SavedCallSession => ({
+  creator: "sreemukhi",
+  sessionId: "sess-1",
+  paymentToken: "pay-token",
+  authToken: null,
+  resumeToken: null,
+  expiresAt: Date.now() + 60_000,
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.stubGlobal("sessionStorage", createMemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("callSessionStore", () => {
+  it("loads what was saved for the same creator", () => {
+    const saved = session();
+    saveCallSession(saved);
+    expect(loadCallSession("sreemukhi")).toEqual(saved);
+  });
+
+  it("ignores a session saved for another creator", () => {
+    saveCallSession(session());
+    expect(loadCallSession("someone-else")).toBeNull();
+  });
+
+  it("keeps a session whose expiry the server has not sent yet", () => {
+    saveCallSession(session({ expiresAt: null }));
+    expect(loadCallSession("sreemukhi")?.sessionId).toBe("sess-1");
+  });
+
+  it("drops an expired session", () => {
+    saveCallSession(session({ expiresAt: Date.now() - 1 }));
+    expect(loadCallSession("sreemukhi")).toBeNull();
+    expect(sessionStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it("ignores corrupt entries", () => {
+    sessionStorage.setItem(STORAGE_KEY, "{not json");
+    expect(loadCallSession("sreemukhi")).toBeNull();
+
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ creator: "sreemukhi", sessionId: 42 }));
+    expect(loadCallSession("sreemukhi")).toBeNull();
+
+    sessionStorage.setItem(STORAGE_KEY, "null");
+    expect(loadCallSession("sreemukhi")).toBeNull();
+  });
+
+  it("merges updates into the matching session only", () => {
+    saveCallSession(session());
+    updateCallSession("other-session", { resumeToken: "wrong" });
+    updateCallSession("sess-1", { resumeToken: "resume-1" });
+    expect(loadCallSession("sreemukhi")?.resumeToken).toBe("resume-1");
+  });
+
+  it("forgets the session on clear", () => {
+    saveCallSession(session());
+    clearCallSession();
+    expect(loadCallSession("sreemukhi")).toBeNull();
+  });
+
+  it("survives storage being unavailable", () => {
+    vi.stubGlobal("sessionStorage", undefined);
+    expect(() => saveCallSession(session())).not.toThrow();
+    expect(loadCallSession("sreemukhi")).toBeNull();
+    expect(() => clearCallSession()).not.toThrow();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * The live call's session, kept in `sessionStorage` so reloading the tab
+ * rejoins the paid call instead of losing it.
+ *
+ * Scoped to the tab and cleared whenever the call ends. Entries past their
+ * expiry are ignored; the server still has the final say on `resume`.
+ */
+
+export interface SavedCallSession {
+  creator: string;
+  sessionId: string;
+  /** Needed when the page went away before the server issued a resume token */
+  paymentToken: string;
+  authToken: string | null;
+  resumeToken: string | null;
+  /** Local time the paid time runs out, once the server has said */
+  expiresAt: number | null;
+}
+
+const STORAGE_KEY = "active-call-session";
+
+export const loadCallSession = (creator: string): SavedCallSession | null => {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const saved = JSON.parse(raw) as SavedCallSession;
+    if (saved.creator !== creator || typeof saved.sessionId !== "string" || typeof saved.paymentToken !== "string") {
+      return null;
+    }
+    if (saved.expiresAt !== null && saved.expiresAt <= Date.now()) {
+      sessionStorage.removeItem(STORAGE_KEY);
+      return null;
+    }
+    return saved;
+  } catch {
+    return null;
+  }
+};
+
+export const saveCallSession = (session: SavedCallSession) => {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch {
+    // storage unavailable (private mode); a reload just ends the call
+  }
+};
+
+/** Merge server updates (resume token, expiry) into the saved session */
+export const updateCallSession = (sessionId: string, update: Partial<SavedCallSession>) => {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+    const saved = JSON.parse(raw) as SavedCallSession;
+    if (saved.sessionId !== sessionId) return;
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ ...saved, ...update }));
+  } catch {
+    // storage unavailable
+  }
+};
+
+export const clearCallSession = () => {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // storage unavailable
+  }
+};
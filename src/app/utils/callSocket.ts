@@ -0,0 +1,330 @@
+/**
+ * Call WebSocket with automatic reconnection and session resume.
+ */
+
+import {
+  CLIENT_CAPABILITIES,
+  PROTOCOL_VERSION,
+  encodeClientMessage,
+  parseServerMessage,
+  type ClientMessage,
+  type ProtocolError,
+  type ServerMessage,
+} from "./protocol";
+import { PCM16_ONLY, toAudioFormat, type AudioFormat, type AudioFormatSupport } from "./audioCodec";
+
+/* ────────────────────────────────────────────────────
+ *  Types
+ * ──────────────────────────────────────────────────── */
+
+export type ConnectionState = "connecting" | "open" | "reconnecting" | "failed" | "closed";
+
+export interface NegotiatedAudio {
+  audioIn: AudioFormat;
+  audioOut: AudioFormat;
+}
+
+export interface CallSocketOptions {
+  url: string;
+  /** Client-generated id for this paid session, stable across reconnects */
+  sessionId: string;
+  /** Verified payment token, sent with `session_start` */
+  paymentToken: string;
+  /** Signed-in user's call token, sent with `session_start` */
+  authToken?: string | null;
+  /** Token from an earlier page load; the first connection sends `resume` with it */
+  resumeToken?: string | null;
+  /** Creator, voice and persona for `session_start` */
+  creator: { id: string; voiceId: string; personaId: string };
+  /** Conversation language (BCP 47) for `session_start` */
+  language?: string;
+  /** Formats to offer in `hello` (default PCM16 only) */
+  audioFormats?: AudioFormatSupport;
+  /** Reconnect attempts before giving up (default 6) */
+  maxAttempts?: number;
+  /** First backoff delay in ms, doubled per attempt (default 500) */
+  baseDelayMs?: number;
+  /** Backoff ceiling in ms (default 8000) */
+  maxDelayMs?: number;
+  /** Called on every successful open; `resumed` is true after a reconnect */
+  onOpen?: (info: { resumed: boolean }) => void;
+  /** Called whenever the server issues or rotates the resume token */
+  onResumeToken?: (token: string) => void;
+  /** Called after each `hello_ack` with the formats to use in each direction */
+  onNegotiated?: (audio: NegotiatedAudio) => void;
+  /** Called for every valid control message not consumed by the handshake */
+  onControl?: (message: ServerMessage) => void;
+  /** Called with every text frame sent or received, for debugging */
+  onTrace?: (entry: { direction: "in" | "out"; text: string }) => void;
+  /** Called for every binary (audio) frame */
+  onAudio?: (data: ArrayBuffer) => void;
+  /** Called for unknown or malformed text frames and version mismatches */
+  onProtocolError?: (error: ProtocolError) => void;
+  onStateChange?: (state: ConnectionState) => void;
+}
+
+export interface CallSocketHandle {
+  /** Mirrors `WebSocket.readyState`; OPEN only while connected */
+  readonly readyState: number;
+  readonly state: ConnectionState;
+  /** Bytes queued on the current socket but not yet sent; 0 while offline */
+  readonly bufferedAmount: number;
+  send: (data: string | ArrayBufferLike | ArrayBufferView) => void;
+  /** Send a typed control message */
+  sendControl: (message: ClientMessage) => void;
+  /**
+   * Offer `audioFormats` from now on and reconnect straight away, so the
+   * server picks again in a new `hello_ack`. The session is resumed as after
+   * a drop. Used to fall back to PCM16 when Opus breaks mid-call.
+   */
+  renegotiate: (audioFormats: AudioFormatSupport) => void;
+  close: () => void;
+}
+
+/* ────────────────────────────────────────────────────
+ *  Reconnecting socket
+ * ──────────────────────────────────────────────────── */
+
+/* Client close before reconnecting with different formats; the session stays resumable */
+const RENEGOTIATE_CLOSE_CODE = 4000;
+/* A connection up this long counts as healthy even without a `session` reply */
+const STABLE_CONNECTION_MS = 10000;
+
+/**
+ * Open the call socket and keep it alive.
+ *
+ * Every open sends `hello`, then `session_start` on the first connection.
+ * The server answers with `session` carrying a resume token (and may rotate
+ * it later). After an unexpected close the socket reconnects with
+ * exponential backoff and sends `resume` after `hello`, or `session_start`
+ * again if no token was issued. Passing `resumeToken` rejoins a session
+ * started by an earlier page load the same way. See `./protocol` for the
+ * message shapes.
+ * A `resume_rejected` reply, a normal close (1000) from the server or running
+ * out of attempts ends the call. Attempts only start over once the server
+ * answers with `session` or a connection stays up for a while, so a server
+ * that accepts and immediately drops the socket still ends the call.
+ *
+ * Sends while offline are dropped: stale audio is worse than a gap.
+ */
+export const connectCallSocket = (options: CallSocketOptions): CallSocketHandle => {
+  const {
+    url,
+    sessionId,
+    paymentToken,
+    authToken,
+    creator,
+    language,
+    maxAttempts = 6,
+    baseDelayMs = 500,
+    maxDelayMs = 8000,
+    onOpen,
+    onResumeToken,
+    onNegotiated,
+    onControl,
+    onAudio,
+    onTrace,
+    onProtocolError,
+    onStateChange,
+  } = options;
+
+  let ws: WebSocket | null = null;
+  let state: ConnectionState = "connecting";
+  let audioFormats = options.audioFormats ?? PCM16_ONLY;
+  let resumeToken = options.resumeToken ?? null;
+  let hasOpened = false;
+  let attempts = 0;
+  let openedAt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setState = (next: ConnectionState) => {
+    if (state === next) return;
+    state = next;
+    if (typeof onStateChange === "function") onStateChange(next);
+  };
+
+  const fail = () => {
+    setState("failed");
+    if (ws && ws.readyState === WebSocket.OPEN) ws.close();
+    ws = null;
+  };
+
+  const scheduleReconnect = () => {
+    if (attempts >= maxAttempts) {
+      fail();
+      return;
+    }
+    setState("reconnecting");
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempts);
+    const jitter = delay * 0.2 * Math.random();
+    attempts += 1;
+    retryTimer = setTimeout(open, delay + jitter);
+  };
+
+  const reportError = (error: ProtocolError) => {
+    if (typeof onProtocolError === "function") onProtocolError(error);
+  };
+
+  const trace = (direction: "in" | "out", text: string) => {
+    if (typeof onTrace === "function") onTrace({ direction, text });
+  };
+
+  const sendText = (socket: WebSocket, text: string) => {
+    trace("out", text);
+    socket.send(text);
+  };
+
+  const handleText = (raw: string) => {
+    trace("in", raw);
+    const result = parseServerMessage(raw);
+    if (!result.ok) {
+      reportError(result.error);
+      return;
+    }
+
+    const msg = result.message;
+    if (msg.type === "hello_ack") {
+      if (msg.protocol_version !== PROTOCOL_VERSION) {
+        reportError({
+          kind: "version_mismatch",
+          detail: `server speaks v${msg.protocol_version}, client v${PROTOCOL_VERSION}`,
+          raw,
+        });
+      }
+      // Anything we didn't offer (or no answer at all) means PCM16
+      const pick = (chosen: string | undefined, offered: AudioFormat[]): AudioFormat => {
+        const format = toAudioFormat(chosen);
+        return offered.includes(format) ? format : toAudioFormat(undefined);
+      };
+      if (typeof onNegotiated === "function") {
+        onNegotiated({
+          audioIn: pick(msg.audio_in, audioFormats.audioIn),
+          audioOut: pick(msg.audio_out, audioFormats.audioOut),
+        });
+      }
+      return;
+    }
+    if (msg.type === "session") {
+      // The server took the session: only now is the connection known good
+      attempts = 0;
+      resumeToken = msg.resume_token;
+      if (typeof onResumeToken === "function") onResumeToken(resumeToken);
+      return;
+    }
+    if (msg.type === "resume_rejected") {
+      fail();
+      return;
+    }
+    if (typeof onControl === "function") onControl(msg);
+  };
+
+  function open() {
+    retryTimer = null;
+    const socket = new WebSocket(url);
+    socket.binaryType = "arraybuffer";
+    ws = socket;
+
+    socket.onopen = () => {
+      const resumed = hasOpened;
+      hasOpened = true;
+      openedAt = Date.now();
+
+      sendText(
+        socket,
+        encodeClientMessage({
+          type: "hello",
+          protocol_version: PROTOCOL_VERSION,
+          capabilities: {
+            ...CLIENT_CAPABILITIES,
+            audio_in: audioFormats.audioIn,
+            audio_out: audioFormats.audioOut,
+          },
+        }),
+      );
+      sendText(
+        socket,
+        encodeClientMessage(
+          resumeToken
+            ? { type: "resume", session_id: sessionId, resume_token: resumeToken }
+            : {
+                type: "session_start",
+                session_id: sessionId,
+                payment_token: paymentToken,
+                ...(authToken ? { auth_token: authToken } : {}),
+                creator_id: creator.id,
+                voice_id: creator.voiceId,
+                persona_id: creator.personaId,
+                ...(language ? { language } : {}),
+              },
+        ),
+      );
+
+      setState("open");
+      if (typeof onOpen === "function") onOpen({ resumed });
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data === "string") {
+        handleText(event.data);
+      } else if (event.data instanceof ArrayBuffer && typeof onAudio === "function") {
+        onAudio(event.data);
+      }
+    };
+
+    socket.onclose = (event: CloseEvent) => {
+      if (ws !== socket || state === "closed" || state === "failed") return;
+      ws = null;
+      if (event.code === 1000) {
+        setState("closed");
+        return;
+      }
+      // A server that accepts and then drops at once must still run out of attempts
+      if (openedAt > 0 && Date.now() - openedAt >= STABLE_CONNECTION_MS) attempts = 0;
+      openedAt = 0;
+      scheduleReconnect();
+    };
+  }
+
+  const send = (data: string | ArrayBufferLike | ArrayBufferView) => {
+    if (state !== "open" || !ws || ws.readyState !== WebSocket.OPEN) return;
+    if (typeof data === "string") {
+      sendText(ws, data);
+    } else {
+      ws.send(data);
+    }
+  };
+
+  open();
+
+  return {
+    get readyState() {
+      return state === "open" && ws ? ws.readyState : WebSocket.CLOSED;
+    },
+    get state() {
+      return state;
+    },
+    get bufferedAmount() {
+      return ws ? ws.bufferedAmount : 0;
+    },
+    send,
+    sendControl: (message) => send(encodeClientMessage(message)),
+    renegotiate: (next) => {
+      audioFormats = next;
+      if (state !== "open" || !ws) return;  // the pending reconnect offers them
+      const previous = ws;
+      ws = null;                            // its onclose is ignored from here
+      previous.close(RENEGOTIATE_CLOSE_CODE, "renegotiate");
+      setState("reconnecting");
+      open();
+    },
+    close: () => {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      setState("closed");
+      if (ws && (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)) {
+        ws.close(1000);
+      }
+      ws = null;
+    },
+  };
+};
@@ -0,0 +1,194 @@
+/**
+ * Browser side of the payment flow: create an order, run the provider's
+ * checkout, then have the server verify the result.
+ */
+
+import type { CreateOrderResponse, VerifyPaymentInput, VerifyPaymentResponse } from "@/lib/payments/types";
+import type { Creator } from "@/lib/creators/types";
+
+/** Why a checkout failed; the UI shows a message in the user's language */
+export type CheckoutError =
+  /** No order: the payments route refused or errored */
+  | "start_failed"
+  /** The gateway's checkout could not be loaded or opened */
+  | "checkout_unavailable"
+  /** The gateway or its verification turned the payment down */
+  | "declined"
+  /** The payment could not be checked; it may still go through */
+  | "verify_failed"
+  | "network";
+
+export type CheckoutResult =
+  | { status: "paid"; paymentToken: string; minutes: number }
+  /** Gateway has not settled yet; pass `payment` to `verifyCheckout` again */
+  | { status: "pending"; payment: VerifyPaymentInput }
+  | { status: "failed"; error: CheckoutError }
+  | { status: "cancelled" };
+
+type ProviderCheckoutResult =
+  | { status: "completed"; payment: VerifyPaymentInput }
+  | { status: "failed"; error: CheckoutError }
+  | { status: "cancelled" };
+
+const RAZORPAY_SCRIPT_URL = "https://checkout.razorpay.com/v1/checkout.js";
+
+/* ────────────────────────────────────────────────────
+ *  Provider checkouts
+ * ──────────────────────────────────────────────────── */
+
+interface RazorpaySuccess {
+  razorpay_payment_id: string;
+  razorpay_order_id: string;
+  razorpay_signature: string;
+}
+
+interface RazorpayInstance {
+  open: () => void;
+  on: (event: "payment.failed", cb: (resp: { error?: { description?: string } }) => void) => void;
+}
+
+type RazorpayCtor = new (options: Record<string, unknown>) => RazorpayInstance;
+
+let razorpayScript: Promise<void> | null = null;
+
+const loadRazorpay = (): Promise<RazorpayCtor> => {
+  razorpayScript ??= new Promise<void>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = RAZORPAY_SCRIPT_URL;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      razorpayScript = null;
+      reject(new Error("Could not load Razorpay checkout"));
+    };
+    document.body.appendChild(script);
+  });
+  return razorpayScript.then(() => (window as unknown as { Razorpay: RazorpayCtor }).Razorpay);
+};
+
+const runRazorpayCheckout = async (
+  { order, config }: CreateOrderResponse,
+  merchantName: string,
+  description: string,
+): Promise<ProviderCheckoutResult> => {
+  const Razorpay = await loadRazorpay();
+
+  return new Promise((resolve) => {
+    let settled = false;
+    // Razorpay keeps the modal open after a failed attempt so the user can
+    // retry; only success or closing the modal ends the checkout.
+    let attemptFailed = false;
+    const settle = (result: ProviderCheckoutResult) => {
+      if (settled) return;
+      settled = true;
+      resolve(result);
+    };
+
+    const checkout = new Razorpay({
+      key: config.keyId,
+      order_id: order.id,
+      amount: order.amount,
+      currency: order.currency,
+      name: merchantName,
+      description,
+      handler: (resp: RazorpaySuccess) =>
+        settle({
+          status: "completed",
+          payment: {
+            orderId: resp.razorpay_order_id,
+            paymentId: resp.razorpay_payment_id,
+            signature: resp.razorpay_signature,
+          },
+        }),
+      modal: {
+        ondismiss: () =>
+          settle(attemptFailed ? { status: "failed", error: "declined" } : { status: "cancelled" }),
+      },
+    });
+    // Razorpay shows why in its own modal; the caller only needs to know it failed
+    checkout.on("payment.failed", () => {
+      attemptFailed = true;
+    });
+    checkout.open();
+  });
+};
+
+/**
+ * Development checkout against the mock provider. Append
+ * `?mockPayment=failed|pending|cancelled` to the page URL to exercise the
+ * other outcomes.
+ */
+const runMockCheckout = async ({ order }: CreateOrderResponse): Promise<ProviderCheckoutResult> => {
+  const outcome = new URLSearchParams(window.location.search).get("mockPayment") ?? "success";
+  if (outcome === "cancelled") return { status: "cancelled" };
+
+  const res = await fetch("/api/payments/mock/complete", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ orderId: order.id, outcome }),
+  });
+  if (!res.ok) return { status: "failed", error: "checkout_unavailable" };
+
+  const { paymentId, signature } = (await res.json()) as { paymentId: string; signature: string };
+  return { status: "completed", payment: { orderId: order.id, paymentId, signature } };
+};
+
+/* ────────────────────────────────────────────────────
+ *  Public API
+ * ──────────────────────────────────────────────────── */
+
+/**
+ * Ask the server to verify a completed checkout.
+ */
+export const verifyCheckout = async (payment: VerifyPaymentInput): Promise<CheckoutResult> => {
+  try {
+    const res = await fetch("/api/payments/verify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payment),
+    });
+    if (!res.ok) return { status: "failed", error: "verify_failed" };
+
+    const result = (await res.json()) as VerifyPaymentResponse;
+    if (result.status === "pending") return { status: "pending", payment };
+    return result.status === "paid" ? result : { status: "failed", error: "declined" };
+  } catch {
+    return { status: "failed", error: "network" };
+  }
+};
+
+/**
+ * Pay for a session of `minutes` with `creator` and return a verified
+ * payment token.
+ */
+export const startCheckout = async (
+  creator: Pick<Creator, "slug" | "name">,
+  minutes: number,
+  description: string,
+): Promise<CheckoutResult> => {
+  let order: CreateOrderResponse;
+  try {
+    const res = await fetch("/api/payments/orders", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ creator: creator.slug, minutes }),
+    });
+    if (!res.ok) return { status: "failed", error: "start_failed" };
+    order = (await res.json()) as CreateOrderResponse;
+  } catch {
+    return { status: "failed", error: "network" };
+  }
+
+  let checkout: ProviderCheckoutResult;
+  try {
+    checkout =
+      order.provider === "razorpay"
+        ? await runRazorpayCheckout(order, creator.name, description)
+        : await runMockCheckout(order);
+  } catch {
+    return { status: "failed", error: "checkout_unavailable" };
+  }
+
+  if (checkout.status !== "completed") return checkout;
+  return verifyCheckout(checkout.payment);
+};
@@ -0,0 +1,231 @@
+/**
+ * Connection quality for a running call.
+ *
+ * Three signals feed one 0 – 4 bar rating:
+ * - `ping` / `pong` round trips → latency, jitter and lost pings
+ * - the socket's `bufferedAmount` → audio queued behind a slow uplink
+ * - TTS chunk arrival times → gaps in the downlink within a reply
+ *
+ * The rating is the worst of the individual grades, so one bad signal is
+ * enough to show it.
+ */
+
+import type { ClientMessage } from "./protocol";
+
+export type QualityProblem = "latency" | "jitter" | "loss" | "uplink" | "downlink";
+
+export interface ConnectionStats {
+  /** Median round trip over recent pings; null until the first pong */
+  rttMs: number | null;
+  /** Mean change between consecutive round trips */
+  jitterMs: number | null;
+  /** Share of recent pings that got no pong in time, 0 – 1 */
+  lossRate: number;
+  /** Bytes the browser has not yet put on the wire */
+  bufferedBytes: number;
+  /** `bufferedBytes` as audio time at the current uplink bitrate */
+  uplinkBacklogMs: number;
+  /** Spread of TTS chunk inter-arrival times within a reply (std dev) */
+  ttsJitterMs: number | null;
+  /** Longest gap between TTS chunks within a reply, over the recent window */
+  ttsMaxGapMs: number | null;
+  /** 0 (unusable) – 4 (excellent) */
+  bars: number;
+  /** Worst signal once quality is bad enough to affect the conversation */
+  problem: QualityProblem | null;
+}
+
+export interface QualitySocket {
+  readonly readyState: number;
+  readonly bufferedAmount: number;
+  sendControl: (message: ClientMessage) => void;
+}
+
+export interface QualityMonitorOptions {
+  /** How often to ping and re-rate (default 2000) */
+  intervalMs?: number;
+  /** A ping without a pong after this long counts as lost (default 5000) */
+  pongTimeoutMs?: number;
+  /** Uplink audio bitrate in bytes per second, read every tick (default PCM16's 32000) */
+  getUplinkBytesPerSecond?: () => number;
+  /** Called after every tick with fresh stats */
+  onUpdate?: (stats: ConnectionStats) => void;
+}
+
+export interface QualityMonitor {
+  /** Feed a `pong` from the server */
+  handlePong: (id: number) => void;
+  /** Note one TTS binary frame arriving */
+  recordAudioChunk: () => void;
+  /** A reply starts or ends; the silence between replies is not a gap */
+  markTurnBoundary: () => void;
+  /** Forget everything measured so far (e.g. after a reconnect) */
+  reset: () => void;
+  getStats: () => ConnectionStats;
+  stop: () => void;
+}
+
+/* How many recent samples each statistic covers */
+const PING_WINDOW = 10;
+const CHUNK_WINDOW = 50;
+/* Bars at or below this surface a warning */
+const WARNING_BARS = 1;
+
+/* Upper bounds for 4, 3, 2 and 1 bars; anything above the last is 0 */
+const GRADES: Record<QualityProblem, [number, number, number, number]> = {
+  latency: [150, 300, 600, 1200],
+  jitter: [30, 60, 120, 250],
+  loss: [0, 0.1, 0.25, 0.5],
+  uplink: [200, 500, 1000, 2000],
+  // Longest TTS gap: pre-roll covers ~120 ms, beyond that replies stutter
+  downlink: [120, 250, 500, 1000],
+};
+
+const grade = (problem: QualityProblem, value: number | null): number => {
+  if (value === null) return 4;
+  const bounds = GRADES[problem];
+  const index = bounds.findIndex((bound) => value <= bound);
+  return index === -1 ? 0 : 4 - index;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const pushWindow = <T>(values: T[], value: T, size: number) => {
+  values.push(value);
+  if (values.length > size) values.shift();
+};
+
+/**
+ * Start pinging over `socket` and rating the connection. Pings are only sent
+ * while the socket is open; call `stop` when the call ends.
+ */
+export const createQualityMonitor = (
+  socket: QualitySocket,
+  options: QualityMonitorOptions = {},
+): QualityMonitor => {
+  const {
+    intervalMs = 2000,
+    pongTimeoutMs = 5000,
+    getUplinkBytesPerSecond,
+    onUpdate,
+  } = options;
+
+  let nextPingId = 1;
+  const pending = new Map<number, number>();   // ping id → sent at
+  let rtts: number[] = [];
+  let pongSeen = false;                         // servers without `pong` aren't rated on loss
+  let pingOutcomes: boolean[] = [];             // true = lost
+  let chunkGaps: number[] = [];
+  let lastChunkAt: number | null = null;
+  let bufferedBytes = 0;
+  let uplinkBacklogMs = 0;
+
+  const getStats = (): ConnectionStats => {
+    const rttMs = rtts.length > 0 ? Math.round(median(rtts)) : null;
+    let jitterMs: number | null = null;
+    if (rtts.length > 1) {
+      let sum = 0;
+      for (let i = 1; i < rtts.length; i++) sum += Math.abs(rtts[i] - rtts[i - 1]);
+      jitterMs = Math.round(sum / (rtts.length - 1));
+    }
+    const lossRate = pingOutcomes.length > 0
+      ? pingOutcomes.filter(Boolean).length / pingOutcomes.length
+      : 0;
+
+    let ttsJitterMs: number | null = null;
+    let ttsMaxGapMs: number | null = null;
+    if (chunkGaps.length > 1) {
+      const mean = chunkGaps.reduce((a, b) => a + b, 0) / chunkGaps.length;
+      const variance = chunkGaps.reduce((a, b) => a + (b - mean) ** 2, 0) / chunkGaps.length;
+      ttsJitterMs = Math.round(Math.sqrt(variance));
+      ttsMaxGapMs = Math.round(Math.max(...chunkGaps));
+    }
+
+    const grades: [QualityProblem, number][] = [
+      ["latency", grade("latency", rttMs)],
+      ["jitter", grade("jitter", jitterMs)],
+      ["loss", grade("loss", pongSeen ? lossRate : null)],
+      ["uplink", grade("uplink", uplinkBacklogMs)],
+      ["downlink", grade("downlink", ttsMaxGapMs)],
+    ];
+    const [worst, bars] = grades.reduce((a, b) => (b[1] < a[1] ? b : a));
+
+    return {
+      rttMs,
+      jitterMs,
+      lossRate,
+      bufferedBytes,
+      uplinkBacklogMs,
+      ttsJitterMs,
+      ttsMaxGapMs,
+      bars,
+      problem: bars <= WARNING_BARS ? worst : null,
+    };
+  };
+
+  const tick = () => {
+    const now = performance.now();
+
+    // Pings that outlived the timeout are lost
+    pending.forEach((sentAt, id) => {
+      if (now - sentAt < pongTimeoutMs) return;
+      pending.delete(id);
+      pushWindow(pingOutcomes, true, PING_WINDOW);
+    });
+
+    if (socket.readyState === WebSocket.OPEN) {
+      const id = nextPingId++;
+      pending.set(id, now);
+      socket.sendControl({ type: "ping", id });
+
+      bufferedBytes = socket.bufferedAmount;
+      const bytesPerSecond = typeof getUplinkBytesPerSecond === "function" ? getUplinkBytesPerSecond() : 32000;
+      uplinkBacklogMs = bytesPerSecond > 0 ? Math.round((bufferedBytes / bytesPerSecond) * 1000) : 0;
+    }
+
+    if (typeof onUpdate === "function") onUpdate(getStats());
+  };
+
+  const timer = setInterval(tick, intervalMs);
+
+  const reset = () => {
+    pending.clear();
+    rtts = [];
+    pongSeen = false;
+    pingOutcomes = [];
+    chunkGaps = [];
+    lastChunkAt = null;
+    bufferedBytes = 0;
+    uplinkBacklogMs = 0;
+  };
+
+  return {
+    handlePong: (id) => {
+      const sentAt = pending.get(id);
+      // Unknown, or already written off as lost
+      if (sentAt === undefined) return;
+      pending.delete(id);
+      pongSeen = true;
+      pushWindow(rtts, performance.now() - sentAt, PING_WINDOW);
+      pushWindow(pingOutcomes, false, PING_WINDOW);
+    },
+    recordAudioChunk: () => {
+      const now = performance.now();
+      if (lastChunkAt !== null) pushWindow(chunkGaps, now - lastChunkAt, CHUNK_WINDOW);
+      lastChunkAt = now;
+    },
+    markTurnBoundary: () => {
+      lastChunkAt = null;
+    },
+    reset,
+    getStats,
+    stop: () => {
+      clearInterval(timer);
+      pending.clear();
+    },
+  };
+};
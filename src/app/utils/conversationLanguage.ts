@@ -0,0 +1,25 @@
+/**
+ * The language the caller wants to speak in, remembered across visits.
+ * Unset means "same as the UI".
+ */
+
+import { isLocale, type Locale } from "@/lib/i18n";
+
+const STORAGE_KEY = "conversation-language";
+
+export const loadConversationLanguage = (): Locale | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isLocale(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveConversationLanguage = (language: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch {
+    // storage unavailable (private mode)
+  }
+};
@@ -0,0 +1,151 @@
+/**
+ * Rolling trace of the live audio pipeline for the `?debug=1` HUD.
+ *
+ * Keeps the last minute of mic frames, playback samples and control
+ * messages in memory, and serialises all of it for bug reports. Tokens in
+ * control messages are redacted before they are stored.
+ */
+
+import type { StreamingFrameInfo } from "./audioUtils";
+import type { PlaybackMetrics } from "./playbackEngine";
+
+export interface MicTraceEntry extends StreamingFrameInfo {
+  /** performance.now() when the frame was handled */
+  at: number;
+}
+
+export interface PlaybackTraceEntry {
+  at: number;
+  state: PlaybackMetrics["state"];
+  bufferedMs: number;
+  leadMs: number;
+  underruns: number;
+}
+
+export interface ControlTraceEntry {
+  at: number;
+  direction: "in" | "out";
+  /** Message `type`, or "invalid" for frames that aren't JSON objects */
+  type: string;
+  /** The message with secrets redacted */
+  message: unknown;
+}
+
+export interface DebugSnapshot {
+  mic: MicTraceEntry[];
+  playback: PlaybackTraceEntry[];
+  control: ControlTraceEntry[];
+  /** Frames sent in each second of the history, oldest first; the last is the current second */
+  framesPerSecond: number[];
+}
+
+export interface DebugTrace {
+  recordMicFrame: (frame: StreamingFrameInfo) => void;
+  recordControl: (direction: "in" | "out", text: string) => void;
+  snapshot: () => DebugSnapshot;
+  /** Pretty JSON of everything held, plus `context`, for attaching to a report */
+  exportJson: (context?: Record<string, unknown>) => string;
+  stop: () => void;
+}
+
+export interface DebugTraceOptions {
+  /** Polled for the playback engine's state */
+  getPlaybackMetrics: () => PlaybackMetrics | null;
+  /** History kept, in ms (default 60000) */
+  historyMs?: number;
+  /** Playback sampling period in ms (default 100) */
+  sampleIntervalMs?: number;
+}
+
+/* Messages sent every couple of seconds that would drown out the rest */
+const QUIET_TYPES = new Set(["ping", "pong"]);
+const REDACTED_FIELDS = ["payment_token", "auth_token", "resume_token"];
+const MAX_CONTROL_ENTRIES = 200;
+
+const parseControl = (text: string): { type: string; message: unknown } => {
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return { type: "invalid", message: text };
+    }
+    const message: Record<string, unknown> = { ...parsed };
+    REDACTED_FIELDS.forEach((field) => {
+      if (field in message) message[field] = "[redacted]";
+    });
+    return { type: typeof message.type === "string" ? message.type : "invalid", message };
+  } catch {
+    return { type: "invalid", message: text };
+  }
+};
+
+export const createDebugTrace = ({
+  getPlaybackMetrics,
+  historyMs = 60000,
+  sampleIntervalMs = 100,
+}: DebugTraceOptions): DebugTrace => {
+  let mic: MicTraceEntry[] = [];
+  let playback: PlaybackTraceEntry[] = [];
+  let control: ControlTraceEntry[] = [];
+
+  const prune = <T extends { at: number }>(entries: T[], now: number): T[] => {
+    const cutoff = now - historyMs;
+    const first = entries.findIndex((entry) => entry.at >= cutoff);
+    if (first === -1) return [];
+    return first === 0 ? entries : entries.slice(first);
+  };
+
+  const timer = setInterval(() => {
+    const now = performance.now();
+    const metrics = getPlaybackMetrics();
+    if (metrics) {
+      playback.push({
+        at: now,
+        state: metrics.state,
+        bufferedMs: metrics.bufferedMs,
+        leadMs: metrics.leadMs,
+        underruns: metrics.underruns,
+      });
+    }
+    // Pruning here keeps the per-frame path cheap
+    mic = prune(mic, now);
+    playback = prune(playback, now);
+  }, sampleIntervalMs);
+
+  const snapshot = (): DebugSnapshot => {
+    const now = performance.now();
+    const seconds = Math.floor(historyMs / 1000);
+    const framesPerSecond = new Array<number>(seconds).fill(0);
+    mic.forEach((frame) => {
+      const age = Math.floor((now - frame.at) / 1000);
+      if (age < seconds) framesPerSecond[seconds - 1 - age] += 1;
+    });
+    return { mic: mic.slice(), playback: playback.slice(), control: control.slice(), framesPerSecond };
+  };
+
+  return {
+    recordMicFrame: (frame) => {
+      mic.push({ ...frame, at: performance.now() });
+    },
+    recordControl: (direction, text) => {
+      const { type, message } = parseControl(text);
+      if (QUIET_TYPES.has(type)) return;
+      control.push({ at: performance.now(), direction, type, message });
+      if (control.length > MAX_CONTROL_ENTRIES) control = control.slice(-MAX_CONTROL_ENTRIES);
+    },
+    snapshot,
+    exportJson: (context = {}) =>
+      JSON.stringify(
+        {
+          exportedAt: new Date().toISOString(),
+          // performance.now() at export, to line entries up with wall time
+          now: performance.now(),
+          userAgent: navigator.userAgent,
+          ...context,
+          ...snapshot(),
+        },
+        null,
+        2,
+      ),
+    stop: () => clearInterval(timer),
+  };
+};
@@ -0,0 +1,57 @@
+/**
+ * Microphone enumeration and the user's saved input choice.
+ */
+
+const STORAGE_KEY = "preferred-mic-id";
+
+/**
+ * Audio inputs currently attached. Labels are blank until the page has had
+ * mic permission once.
+ */
+export const listMicrophones = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "audioinput" && device.deviceId !== "");
+};
+
+/**
+ * Call `onChange` with the current inputs now and whenever one is plugged in
+ * or removed. Returns an unsubscribe function.
+ */
+export const watchMicrophones = (onChange: (devices: MediaDeviceInfo[]) => void): (() => void) => {
+  let cancelled = false;
+  const refresh = () => {
+    listMicrophones()
+      .then((devices) => {
+        if (!cancelled) onChange(devices);
+      })
+      .catch(() => {
+        // enumeration blocked (insecure context / policy)
+      });
+  };
+
+  refresh();
+  navigator.mediaDevices?.addEventListener("devicechange", refresh);
+  return () => {
+    cancelled = true;
+    navigator.mediaDevices?.removeEventListener("devicechange", refresh);
+  };
+};
+
+export const loadPreferredMic = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/** `null` goes back to the system default */
+export const savePreferredMic = (deviceId: string | null) => {
+  try {
+    if (deviceId) localStorage.setItem(STORAGE_KEY, deviceId);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // storage unavailable (private mode)
+  }
+};
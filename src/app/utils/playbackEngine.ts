@@ -0,0 +1,325 @@
+/**
+ * TTS playback engine: jitter buffer, pre-roll, gap crossfades and metrics.
+ */
+
+/* ────────────────────────────────────────────────────
+ *  Types
+ * ──────────────────────────────────────────────────── */
+
+export type PlaybackState = "idle" | "buffering" | "playing";
+
+export interface PlaybackMetrics {
+  state: PlaybackState;
+  /** Audio scheduled ahead of the play position plus audio still queued, in ms */
+  bufferedMs: number;
+  /** How far the last scheduled chunk ends ahead of `currentTime`, in ms */
+  leadMs: number;
+  /** Times the play position caught up with the last scheduled chunk */
+  underruns: number;
+  /** Chunks received since the engine was created */
+  chunks: number;
+}
+
+export interface PlaybackEngineOptions {
+  /** Sample rate of incoming PCM16 (default 16000, must match backend TTS) */
+  sampleRate?: number;
+  /** Audio buffered before the first sample of a turn plays (default 120) */
+  preRollMs?: number;
+  /** Audio buffered before resuming after an underrun (default 80) */
+  rebufferMs?: number;
+  /** Longest wait for pre-roll before playing what has arrived (default 400) */
+  maxBufferWaitMs?: number;
+  /** Fade length used across gaps (default 8) */
+  crossfadeMs?: number;
+  /** Called whenever an underrun is detected */
+  onUnderrun?: (count: number) => void;
+}
+
+export interface PlaybackEngine {
+  /** Begin a new TTS turn: re-arms pre-roll and resets turn position */
+  startTurn: () => void;
+  /** Queue one PCM16 chunk; starts a turn implicitly if none is active */
+  enqueuePcm16: (data: ArrayBuffer) => void;
+  /** Queue already-decoded samples (e.g. from Opus) at their own rate */
+  enqueueFloat32: (samples: Float32Array<ArrayBuffer>, sampleRate: number) => void;
+  /** No more chunks for this turn; resolves once everything has played */
+  endTurn: () => Promise<void>;
+  /** Stop all audio now and drop anything queued */
+  stop: () => void;
+  /** Milliseconds of the current turn that have actually been heard */
+  getTurnPlayedMs: () => number;
+  /** Node carrying everything played, for taps such as call recording */
+  getOutputNode: () => GainNode;
+  /** Loudness of what is playing right now, 0 – 1, for visuals */
+  getOutputLevel: () => number;
+  getMetrics: () => PlaybackMetrics;
+  /** Stop and release the AudioContext */
+  close: () => void;
+}
+
+/* Minimum lead over `currentTime` for anything we schedule */
+const SCHEDULE_SAFETY_SEC = 0.01;
+/* Samples per output level reading (~11 ms at 48 kHz) */
+const LEVEL_FFT_SIZE = 512;
+
+/* ────────────────────────────────────────────────────
+ *  Engine
+ * ──────────────────────────────────────────────────── */
+
+/**
+ * Create a playback engine.
+ *
+ * Each turn waits for `preRollMs` of audio before starting. Chunks that
+ * arrive in time are scheduled back to back. Every chunk carries a
+ * provisional fade-out on its tail which is cancelled when the next chunk
+ * arrives early enough; a chunk that arrives while that fade is running is
+ * crossfaded in over it, and one that arrives after the audio ran dry counts
+ * as an underrun and re-buffers `rebufferMs` before fading back in.
+ */
+export const createPlaybackEngine = (options: PlaybackEngineOptions = {}): PlaybackEngine => {
+  const {
+    sampleRate = 16000,
+    preRollMs = 120,
+    rebufferMs = 80,
+    maxBufferWaitMs = 400,
+    crossfadeMs = 8,
+    onUnderrun,
+  } = options;
+
+  let audioContext: AudioContext | null = null;
+  let output: GainNode | null = null;
+  let analyser: AnalyserNode | null = null;
+  let levelData: Float32Array<ArrayBuffer> | null = null;
+
+  let state: PlaybackState = "idle";
+  let bufferTargetMs = preRollMs;
+  let queue: AudioBuffer[] = [];
+  let queuedSec = 0;
+  let waitTimer: ReturnType<typeof setTimeout> | null = null;
+
+  let playHead = 0;
+  let tail: { gain: GainNode; end: number; fadeSec: number } | null = null;
+  let turnScheduledSec = 0;
+
+  const sources = new Set<AudioBufferSourceNode>();
+  let endPromises: Promise<void>[] = [];
+
+  let underruns = 0;
+  let chunks = 0;
+
+  const getContext = (): AudioContext => {
+    if (!audioContext) {
+      const AudioContextCtor =
+        window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+      audioContext = new AudioContextCtor();
+      output = audioContext.createGain();
+      output.connect(audioContext.destination);
+      analyser = audioContext.createAnalyser();
+      analyser.fftSize = LEVEL_FFT_SIZE;
+      levelData = new Float32Array(LEVEL_FFT_SIZE);
+      output.connect(analyser);
+      playHead = audioContext.currentTime;
+    }
+    return audioContext;
+  };
+
+  const clearWaitTimer = () => {
+    if (waitTimer) clearTimeout(waitTimer);
+    waitTimer = null;
+  };
+
+  /* Schedule one chunk at `startAt`, optionally fading in */
+  const scheduleChunk = (buffer: AudioBuffer, startAt: number, fadeIn: boolean) => {
+    const ctx = getContext();
+    const fadeSec = Math.min(crossfadeMs / 1000, buffer.duration / 2);
+    const end = startAt + buffer.duration;
+
+    const src = ctx.createBufferSource();
+    src.buffer = buffer;
+    const gain = ctx.createGain();
+    src.connect(gain);
+    gain.connect(output!);
+
+    if (fadeIn) {
+      gain.gain.setValueAtTime(0, startAt);
+      gain.gain.linearRampToValueAtTime(1, startAt + fadeSec);
+    }
+    // Provisional fade-out, cancelled if the next chunk arrives in time
+    gain.gain.setValueAtTime(1, end - fadeSec);
+    gain.gain.linearRampToValueAtTime(0, end);
+
+    endPromises.push(
+      new Promise<void>((resolve) => {
+        src.onended = () => {
+          sources.delete(src);
+          gain.disconnect();
+          resolve();
+        };
+      }),
+    );
+    sources.add(src);
+    src.start(startAt);
+
+    // Overlap with the previous chunk was already counted once
+    turnScheduledSec += end - Math.max(startAt, playHead);
+    playHead = end;
+    tail = { gain, end, fadeSec };
+  };
+
+  /* Append directly after the current tail, cancelling its fade-out */
+  const appendContiguous = (buffer: AudioBuffer) => {
+    tail!.gain.gain.cancelScheduledValues(tail!.end - tail!.fadeSec);
+    scheduleChunk(buffer, tail!.end, false);
+  };
+
+  const flushQueue = () => {
+    clearWaitTimer();
+    const ctx = getContext();
+    const pending = queue;
+    queue = [];
+    queuedSec = 0;
+    state = "playing";
+
+    pending.forEach((buffer, i) => {
+      if (i === 0) {
+        scheduleChunk(buffer, Math.max(ctx.currentTime + SCHEDULE_SAFETY_SEC, playHead), true);
+      } else {
+        appendContiguous(buffer);
+      }
+    });
+  };
+
+  const enterBuffering = (targetMs: number) => {
+    state = "buffering";
+    bufferTargetMs = targetMs;
+    clearWaitTimer();
+    waitTimer = setTimeout(() => {
+      if (state === "buffering" && queue.length > 0) flushQueue();
+    }, maxBufferWaitMs);
+  };
+
+  const queueBuffer = (buffer: AudioBuffer) => {
+    queue.push(buffer);
+    queuedSec += buffer.duration;
+    if (queuedSec * 1000 >= bufferTargetMs) flushQueue();
+  };
+
+  const startTurn = () => {
+    turnScheduledSec = 0;
+    enterBuffering(preRollMs);
+  };
+
+  const enqueueFloat32 = (samples: Float32Array<ArrayBuffer>, rate: number) => {
+    chunks += 1;
+    if (samples.length === 0) return;
+
+    const ctx = getContext();
+    const buffer = ctx.createBuffer(1, samples.length, rate);
+    buffer.copyToChannel(samples, 0, 0);
+
+    if (state === "idle") startTurn();
+    if (state === "buffering") {
+      queueBuffer(buffer);
+      return;
+    }
+
+    const now = ctx.currentTime;
+    if (tail && now < tail.end - tail.fadeSec - SCHEDULE_SAFETY_SEC) {
+      appendContiguous(buffer);
+    } else if (tail && now < tail.end - SCHEDULE_SAFETY_SEC) {
+      // Tail is already fading out: crossfade the new chunk in over it
+      scheduleChunk(buffer, Math.max(now + SCHEDULE_SAFETY_SEC, tail.end - tail.fadeSec), true);
+    } else {
+      underruns += 1;
+      if (typeof onUnderrun === "function") onUnderrun(underruns);
+      enterBuffering(rebufferMs);
+      queueBuffer(buffer);
+    }
+  };
+
+  const enqueuePcm16 = (data: ArrayBuffer) => {
+    // Convert Int16 → Float32 for Web Audio API
+    const int16 = new Int16Array(data);
+    const float32 = new Float32Array(int16.length);
+    for (let i = 0; i < int16.length; i++) {
+      float32[i] = int16[i] / 32768;
+    }
+    enqueueFloat32(float32, sampleRate);
+  };
+
+  const endTurn = (): Promise<void> => {
+    if (state === "buffering" && queue.length > 0) flushQueue();
+    clearWaitTimer();
+    return Promise.all([...endPromises]).then(() => {
+      // A newer turn may have started meanwhile
+      if (state === "playing" && sources.size === 0 && queue.length === 0) {
+        state = "idle";
+        endPromises = [];
+      }
+    });
+  };
+
+  const stop = () => {
+    clearWaitTimer();
+    sources.forEach((node) => {
+      try {
+        node.stop(0);
+      } catch {
+        // ignore nodes already ended/stopped
+      }
+    });
+    sources.clear();
+    endPromises = [];
+    queue = [];
+    queuedSec = 0;
+    tail = null;
+    turnScheduledSec = 0;
+    state = "idle";
+    playHead = audioContext ? audioContext.currentTime : 0;
+  };
+
+  const getTurnPlayedMs = () => {
+    if (!audioContext) return 0;
+    const unplayed = Math.max(0, playHead - audioContext.currentTime);
+    return Math.max(0, Math.round((turnScheduledSec - unplayed) * 1000));
+  };
+
+  const getMetrics = (): PlaybackMetrics => {
+    const ahead = audioContext ? Math.max(0, playHead - audioContext.currentTime) : 0;
+    return {
+      state,
+      bufferedMs: Math.round((ahead + queuedSec) * 1000),
+      leadMs: Math.round(ahead * 1000),
+      underruns,
+      chunks,
+    };
+  };
+
+  const getOutputNode = (): GainNode => {
+    getContext();
+    return output!;
+  };
+
+  const getOutputLevel = (): number => {
+    if (!analyser || !levelData || sources.size === 0) return 0;
+    analyser.getFloatTimeDomainData(levelData);
+    let sumSquares = 0;
+    for (let i = 0; i < levelData.length; i++) {
+      sumSquares += levelData[i] * levelData[i];
+    }
+    return Math.min(Math.sqrt(sumSquares / levelData.length) * 4, 1);
+  };
+
+  const close = () => {
+    stop();
+    if (audioContext && audioContext.state !== "closed") {
+      audioContext.close();
+    }
+    audioContext = null;
+    output = null;
+    analyser = null;
+    levelData = null;
+  };
+
+  return { startTurn, enqueuePcm16, enqueueFloat32, endTurn, stop, getTurnPlayedMs, getOutputNode, getOutputLevel, getMetrics, close };
+};
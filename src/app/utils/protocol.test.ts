@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { isExtendRejectedReason, parseServerMessage, type ProtocolError } from "./protocol";
+
+const parseError = (raw: string): ProtocolError => {
+  const result = parseServerMessage(raw);
+  if (result.ok) throw new Error(`expected ${raw} to be rejected`);
+  return result.error;
+};
+
+describe("parseServerMessage", () => {
+  it("accepts well-formed messages", () => {
+    const messages = [
+      { type: "hello_ack", protocol_version: 1, audio_in: "opus/16000" },
+      { type: "session", resume_token: "resume-1" },
+      { type: "tts_start" },
+      { type: "transcript", role: "assistant", turn_id: "t1", text: "Hi", final: false },
+      { type: "session_clock", expires_at: 1_700_000_060_000, server_time: 1_700_000_000_000 },
+      { type: "extend_rejected", reason: "invalid_payment" },
+      { type: "error", code: "overloaded" },
+    ];
+    for (const message of messages) {
+      expect(parseServerMessage(JSON.stringify(message))).toEqual({ ok: true, message });
+    }
+  });
+
+  it("allows optional fields to be missing and extra fields to be present", () => {
+    const result = parseServerMessage(JSON.stringify({ type: "session_expired", extra: [1, 2] }));
+    expect(result).toEqual({ ok: true, message: { type: "session_expired", extra: [1, 2] } });
+  });
+
+  it("rejects frames that are not JSON objects", () => {
+    for (const raw of ["{not json", "[]", "null", '"tts_start"', "42"]) {
+      const error = parseError(raw);
+      expect(error.kind).toBe("malformed");
+      expect(error.raw).toBe(raw);
+    }
+  });
+
+  it("rejects a missing or non-string type", () => {
+    expect(parseError("{}").detail).toBe("missing string `type`");
+    expect(parseError('{"type":7}').kind).toBe("malformed");
+  });
+
+  it("reports unknown types separately", () => {
+    expect(parseError('{"type":"karaoke"}')).toMatchObject({ kind: "unknown_type", detail: 'unknown type "karaoke"' });
+    // Inherited object keys are not message types
+    expect(parseError('{"type":"toString"}').kind).toBe("unknown_type");
+    expect(parseError('{"type":"__proto__"}').kind).toBe("unknown_type");
+  });
+
+  it("names the field that has the wrong type", () => {
+    expect(parseError('{"type":"pong","id":"7"}')).toMatchObject({
+      kind: "malformed",
+      detail: '"pong".id should be number',
+    });
+    expect(parseError('{"type":"session"}').detail).toBe('"session".resume_token should be string');
+    expect(parseError('{"type":"session_expired","reason":5}').detail).toBe(
+      '"session_expired".reason should be string?',
+    );
+  });
+
+  it("only accepts listed values for enumerated fields", () => {
+    const raw = JSON.stringify({ type: "transcript", role: "system", turn_id: "t1", text: "Hi", final: true });
+    expect(parseError(raw).detail).toBe('"transcript".role should be user | assistant');
+  });
+});
+
+describe("isExtendRejectedReason", () => {
+  it("recognises only the reasons the call UI explains", () => {
+    expect(isExtendRejectedReason("invalid_payment")).toBe(true);
+    expect(isExtendRejectedReason("session_over")).toBe(true);
+    expect(isExtendRejectedReason("Invalid payment token")).toBe(false);
+    expect(isExtendRejectedReason(undefined)).toBe(false);
+  });
+});
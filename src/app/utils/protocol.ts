@@ -0,0 +1,328 @@
+/**
+ * Client/server control protocol for the call WebSocket.
+ *
+ * Control messages travel as JSON text frames; audio travels as binary
+ * frames. This module is the single definition of every JSON message — the
+ * backend should mirror it.
+ *
+ * Handshake: on every open the client sends `hello` followed by either
+ * `session_start` (new call) or `resume` (reconnect, or a reloaded page
+ * rejoining its call). The server answers with `hello_ack` and a `session`
+ * carrying the resume token.
+ *
+ * Audio format is negotiated in the same exchange: `hello` lists what the
+ * client can send and play, most preferred first, and `hello_ack` names the
+ * format the server picked for each direction. A server that leaves them out
+ * gets PCM16 @ 16 kHz both ways; Opus travels as one packet per frame. If
+ * the browser's Opus codec fails mid-call, the client closes with 4000 and
+ * resumes with a `hello` that no longer offers it; keep the session resumable.
+ *
+ * Session time is server-authoritative: `session_clock` carries the expiry
+ * (sent on start, on resume and periodically), `time_warning` fires one
+ * minute out, and only `session_expired` ends the call. Paying mid-call sends
+ * `extend_session`; the server answers `session_extended` plus a fresh
+ * `session_clock`, or `extend_rejected`.
+ *
+ * Typed input: `user_text` stands in for a spoken turn and gets the same
+ * reply (TTS plus `transcript`). Its user `transcript`, if echoed, should
+ * reuse the client's `turn_id` so the typed line isn't shown twice.
+ *
+ * The client sends `ping` every few seconds to measure the connection; the
+ * server should answer each with `pong` carrying the same id straight away.
+ */
+
+import { checkField, type FieldSpec } from "@/lib/fieldSpec";
+
+export const PROTOCOL_VERSION = 1;
+
+/* ────────────────────────────────────────────────────
+ *  Client → server
+ * ──────────────────────────────────────────────────── */
+
+export interface ClientCapabilities {
+  /** Uplink audio formats the client can send, most preferred first, e.g. "opus/16000" */
+  audio_in: string[];
+  /** Downlink audio formats the client can play, most preferred first */
+  audio_out: string[];
+  /** Client sends `interrupt` when the user talks over playback */
+  barge_in: boolean;
+  /** Client reconnects with `resume` after a dropped socket */
+  resume: boolean;
+  /** Client renders `transcript` messages as captions */
+  transcripts: boolean;
+  /** Client may send `user_text` instead of speaking */
+  text_input: boolean;
+}
+
+export interface HelloMessage {
+  type: "hello";
+  protocol_version: number;
+  capabilities: ClientCapabilities;
+}
+
+export interface SessionStartMessage {
+  type: "session_start";
+  session_id: string;
+  /** Token from `/api/payments/verify` proving this session was paid for */
+  payment_token: string;
+  /** Call token from `/api/auth/session`; absent for guests */
+  auth_token?: string;
+  /** Catalog slug; must match the creator the payment token was issued for */
+  creator_id: string;
+  /** TTS voice and persona profile to use for this creator */
+  voice_id: string;
+  persona_id: string;
+  /** BCP 47 tag of the language the caller will speak, e.g. "te-IN"; STT and TTS should use it */
+  language?: string;
+}
+
+export interface ResumeMessage {
+  type: "resume";
+  session_id: string;
+  resume_token: string;
+}
+
+export interface SpeechStartMessage {
+  type: "speech_start";
+}
+
+export interface SpeechEndMessage {
+  type: "speech_end";
+}
+
+export interface InterruptMessage {
+  type: "interrupt";
+  /** Milliseconds of the interrupted TTS turn the user actually heard */
+  played_ms: number;
+}
+
+export interface ExtendSessionMessage {
+  type: "extend_session";
+  /** Token from `/api/payments/verify` for the top-up; applying it twice is a no-op */
+  payment_token: string;
+}
+
+export interface UserTextMessage {
+  type: "user_text";
+  /** Client-generated id for this turn */
+  turn_id: string;
+  text: string;
+}
+
+export interface PingMessage {
+  type: "ping";
+  /** Echoed back in `pong`; increases per ping */
+  id: number;
+}
+
+export type ClientMessage =
+  | HelloMessage
+  | SessionStartMessage
+  | ResumeMessage
+  | SpeechStartMessage
+  | SpeechEndMessage
+  | InterruptMessage
+  | ExtendSessionMessage
+  | UserTextMessage
+  | PingMessage;
+
+/* ────────────────────────────────────────────────────
+ *  Server → client
+ * ──────────────────────────────────────────────────── */
+
+export interface HelloAckMessage {
+  type: "hello_ack";
+  protocol_version: number;
+  /** Uplink format chosen from `capabilities.audio_in` (default "pcm16/16000") */
+  audio_in?: string;
+  /** Downlink format chosen from `capabilities.audio_out` (default "pcm16/16000") */
+  audio_out?: string;
+}
+
+export interface SessionMessage {
+  type: "session";
+  /** Opaque token to present in `resume`; may be rotated at any time */
+  resume_token: string;
+}
+
+export interface ResumeRejectedMessage {
+  type: "resume_rejected";
+  reason?: string;
+}
+
+export interface TtsStartMessage {
+  type: "tts_start";
+}
+
+export interface TtsEndMessage {
+  type: "tts_end";
+}
+
+export interface TranscriptMessage {
+  type: "transcript";
+  role: "user" | "assistant";
+  /** Stable per utterance; partials are replaced by later messages with the same id */
+  turn_id: string;
+  /** Full text so far for this turn (not a delta) */
+  text: string;
+  /** True once the text for this turn will no longer change */
+  final: boolean;
+}
+
+export interface SessionClockMessage {
+  type: "session_clock";
+  /** Unix ms when the paid time runs out — the only authoritative deadline */
+  expires_at: number;
+  /** Server's Unix ms when this was sent, for clock-offset correction */
+  server_time: number;
+}
+
+export interface TimeWarningMessage {
+  type: "time_warning";
+  remaining_ms: number;
+}
+
+export interface SessionExpiredMessage {
+  type: "session_expired";
+  reason?: string;
+}
+
+export interface SessionExtendedMessage {
+  type: "session_extended";
+  /** Time added by the top-up; the new deadline follows in `session_clock` */
+  added_ms: number;
+}
+
+/** Top-up refusals the call UI explains; any other reason gets a generic message */
+export type ExtendRejectedReason = "invalid_payment" | "session_over";
+
+export const isExtendRejectedReason = (reason: string | undefined): reason is ExtendRejectedReason =>
+  reason === "invalid_payment" || reason === "session_over";
+
+export interface ExtendRejectedMessage {
+  type: "extend_rejected";
+  /** Usually an `ExtendRejectedReason` */
+  reason?: string;
+}
+
+export interface PongMessage {
+  type: "pong";
+  /** Id of the `ping` being answered */
+  id: number;
+}
+
+export interface ServerErrorMessage {
+  type: "error";
+  code: string;
+  message?: string;
+}
+
+export type ServerMessage =
+  | HelloAckMessage
+  | SessionMessage
+  | ResumeRejectedMessage
+  | TtsStartMessage
+  | TtsEndMessage
+  | TranscriptMessage
+  | SessionClockMessage
+  | TimeWarningMessage
+  | SessionExpiredMessage
+  | SessionExtendedMessage
+  | ExtendRejectedMessage
+  | PongMessage
+  | ServerErrorMessage;
+
+/* ────────────────────────────────────────────────────
+ *  Encoding / validation
+ * ──────────────────────────────────────────────────── */
+
+export interface ProtocolError {
+  kind: "malformed" | "unknown_type" | "version_mismatch";
+  /** Human-readable reason, for logs */
+  detail: string;
+  /** The offending text frame */
+  raw: string;
+}
+
+export type ParseResult =
+  | { ok: true; message: ServerMessage }
+  | { ok: false; error: ProtocolError };
+
+/* Expected fields per server message type (besides `type`) */
+const SERVER_MESSAGE_FIELDS: { [K in ServerMessage["type"]]: Record<string, FieldSpec> } = {
+  hello_ack: { protocol_version: "number", audio_in: "string?", audio_out: "string?" },
+  session: { resume_token: "string" },
+  resume_rejected: { reason: "string?" },
+  tts_start: {},
+  tts_end: {},
+  transcript: { role: ["user", "assistant"], turn_id: "string", text: "string", final: "boolean" },
+  session_clock: { expires_at: "number", server_time: "number" },
+  time_warning: { remaining_ms: "number" },
+  session_expired: { reason: "string?" },
+  session_extended: { added_ms: "number" },
+  extend_rejected: { reason: "string?" },
+  pong: { id: "number" },
+  error: { code: "string", message: "string?" },
+};
+
+const isServerMessageType = (type: string): type is ServerMessage["type"] =>
+  Object.prototype.hasOwnProperty.call(SERVER_MESSAGE_FIELDS, type);
+
+/**
+ * Serialise a client message. Typed so only protocol messages can be sent.
+ */
+export const encodeClientMessage = (message: ClientMessage): string => JSON.stringify(message);
+
+/**
+ * Parse and validate one JSON text frame from the server.
+ */
+export const parseServerMessage = (raw: string): ParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: { kind: "malformed", detail: "invalid JSON", raw } };
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { ok: false, error: { kind: "malformed", detail: "not a JSON object", raw } };
+  }
+
+  const record = data as Record<string, unknown>;
+  if (typeof record.type !== "string") {
+    return { ok: false, error: { kind: "malformed", detail: "missing string `type`", raw } };
+  }
+
+  if (!isServerMessageType(record.type)) {
+    return { ok: false, error: { kind: "unknown_type", detail: `unknown type "${record.type}"`, raw } };
+  }
+
+  const fields = SERVER_MESSAGE_FIELDS[record.type];
+  for (const [name, spec] of Object.entries(fields)) {
+    if (!checkField(record[name], spec)) {
+      return {
+        ok: false,
+        error: {
+          kind: "malformed",
+          detail: `"${record.type}".${name} should be ${typeof spec === "string" ? spec : spec.join(" | ")}`,
+          raw,
+        },
+      };
+    }
+  }
+
+  return { ok: true, message: record as unknown as ServerMessage };
+};
+
+/**
+ * Capabilities this client advertises in `hello`. Audio formats here are the
+ * PCM16 baseline; the call socket adds Opus when the browser supports it.
+ */
+export const CLIENT_CAPABILITIES: ClientCapabilities = {
+  audio_in: ["pcm16/16000"],
+  audio_out: ["pcm16/16000"],
+  barge_in: true,
+  resume: true,
+  transcripts: true,
+  text_input: true,
+};
@@ -0,0 +1,71 @@
+/**
+ * Call recordings kept in the browser's IndexedDB. Nothing is uploaded.
+ */
+
+export interface CallRecording {
+  id: string;
+  creatorSlug: string;
+  creatorName: string;
+  /** Unix ms when recording began */
+  startedAt: number;
+  durationMs: number;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  audio: Blob;
+}
+
+const DB_NAME = "call-history";
+const DB_VERSION = 1;
+const STORE = "recordings";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("startedAt", "startedAt");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+/* Run one request in its own transaction */
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = op(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveRecording = (recording: Omit<CallRecording, "id" | "size">): Promise<CallRecording> => {
+  const saved: CallRecording = { ...recording, id: crypto.randomUUID(), size: recording.audio.size };
+  return run("readwrite", (store) => store.add(saved)).then(() => saved);
+};
+
+/** Newest first */
+export const listRecordings = async (): Promise<CallRecording[]> => {
+  const recordings = await run<CallRecording[]>("readonly", (store) => store.index("startedAt").getAll());
+  return recordings.reverse();
+};
+
+export const deleteRecording = (id: string): Promise<void> =>
+  run("readwrite", (store) => store.delete(id)).then(() => undefined);
+
+/** `sreemukhi-2025-01-31-1830.webm` */
+export const recordingFileName = (recording: CallRecording): string => {
+  const date = new Date(recording.startedAt);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  const ext = recording.mimeType.includes("mp4") ? "m4a" : recording.mimeType.includes("ogg") ? "ogg" : "webm";
+  return `${recording.creatorSlug}-${stamp}.${ext}`;
+};
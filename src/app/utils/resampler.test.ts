@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { FrameAccumulator, StreamingResampler } from "./resampler";
+
+const tone = (frequency: number, sampleRate: number, length: number, amplitude = 0.5): Float32Array =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+const ramp = (start: number, length: number): Float32Array => Float32Array.from({ length }, (_, i) => start + i);
+
+/* Feed `input` in `chunkSize` pieces and join what comes out */
+const resampleInChunks = (resampler: StreamingResampler, input: Float32Array, chunkSize: number): Float32Array => {
+  const parts: Float32Array[] = [];
+  for (let offset = 0; offset < input.length; offset += chunkSize) {
+    parts.push(resampler.process(input.subarray(offset, offset + chunkSize)));
+  }
+  const output = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const rms = (samples: Float32Array): number =>
+  Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+
+describe("StreamingResampler", () => {
+  // One second in; the kernel's look-ahead holds back a few output samples
+  for (const inputRate of [48000, 44100]) {
+    it(`turns a second at ${inputRate} Hz into a second at 16 kHz`, () => {
+      const output = resampleInChunks(new StreamingResampler(inputRate, 16000), tone(440, inputRate, inputRate), 128);
+      expect(output.length).toBeLessThanOrEqual(16000);
+      expect(output.length).toBeGreaterThan(16000 - 16);
+    });
+  }
+
+  it("gives the same output however the stream is chunked", () => {
+    const input = tone(440, 44100, 44100);
+    const whole = new StreamingResampler(44100, 16000).process(input);
+    const chunked = resampleInChunks(new StreamingResampler(44100, 16000), input, 441);
+
+    expect(chunked.length).toBe(whole.length);
+    const maxDiff = whole.reduce((max, sample, i) => Math.max(max, Math.abs(sample - chunked[i])), 0);
+    expect(maxDiff).toBeLessThan(1e-5);
+  });
+
+  it("keeps a constant signal at the same level", () => {
+    const output = resampleInChunks(new StreamingResampler(48000, 16000), new Float32Array(4800).fill(0.5), 128);
+    for (const sample of output.subarray(100)) {
+      expect(sample).toBeCloseTo(0.5, 3);
+    }
+  });
+
+  it("passes speech-band tones and filters out what would alias", () => {
+    const passed = resampleInChunks(new StreamingResampler(48000, 16000), tone(1000, 48000, 48000), 128);
+    const aliased = resampleInChunks(new StreamingResampler(48000, 16000), tone(10000, 48000, 48000), 128);
+
+    // A 0.5 sine has an RMS of about 0.354
+    expect(rms(passed.subarray(100))).toBeCloseTo(0.354, 2);
+    expect(rms(aliased.subarray(100))).toBeLessThan(0.005);
+  });
+});
+
+describe("FrameAccumulator", () => {
+  it("emits a frame each time enough samples have arrived", () => {
+    const accumulator = new FrameAccumulator(320);
+    const frames: Float32Array[] = [];
+    for (let i = 0; i < 5; i++) {
+      accumulator.push(ramp(i * 128, 128), (frame) => frames.push(frame));
+    }
+
+    // 640 samples in: exactly two frames
+    expect(frames).toHaveLength(2);
+    expect(frames.map((frame) => [frame[0], frame[319]])).toEqual([
+      [0, 319],
+      [320, 639],
+    ]);
+  });
+
+  it("carries the remainder into the next push", () => {
+    const accumulator = new FrameAccumulator(320);
+    const frames: Float32Array[] = [];
+    const collect = (frame: Float32Array) => frames.push(frame);
+
+    accumulator.push(ramp(0, 200), collect);
+    expect(frames).toHaveLength(0);
+
+    accumulator.push(ramp(200, 200), collect);
+    expect(frames).toHaveLength(1);
+    expect(frames[0]).toEqual(ramp(0, 320));
+
+    accumulator.push(ramp(400, 240), collect);
+    expect(frames).toHaveLength(2);
+    expect(frames[1]).toEqual(ramp(320, 320));
+  });
+
+  it("splits one large push into several frames", () => {
+    const accumulator = new FrameAccumulator(320);
+    const frames: Float32Array[] = [];
+    accumulator.push(ramp(0, 1000), (frame) => frames.push(frame));
+
+    expect(frames).toHaveLength(3);
+    expect(frames[2][0]).toBe(640);
+  });
+
+  it("does not reuse a frame it has handed out", () => {
+    const accumulator = new FrameAccumulator(4);
+    const frames: Float32Array[] = [];
+    accumulator.push(ramp(0, 8), (frame) => frames.push(frame));
+
+    expect(frames[0]).not.toBe(frames[1]);
+    expect(Array.from(frames[0])).toEqual([0, 1, 2, 3]);
+  });
+});
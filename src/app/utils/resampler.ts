@@ -0,0 +1,179 @@
+/**
+ * Streaming sample-rate conversion and fixed-size framing for the uplink.
+ *
+ * Mirrored in `public/worklets/pcm16-capture-processor.js`, which cannot
+ * import from the app bundle — keep the two in sync.
+ */
+
+/* ────────────────────────────────────────────────────
+ *  Windowed-sinc resampler
+ * ──────────────────────────────────────────────────── */
+
+export interface ResamplerOptions {
+  /** Sinc zero crossings on each side of the kernel centre (default 8) */
+  zeroCrossings?: number;
+  /** Fractional-delay phases in the precomputed kernel table (default 256) */
+  phases?: number;
+  /** Passband edge as a fraction of the output Nyquist frequency (default 0.9) */
+  rolloff?: number;
+}
+
+/**
+ * Band-limited resampler for continuous streams at any input/output rate.
+ *
+ * A Blackman-windowed sinc low-pass runs at min(input, output) Nyquist so
+ * content above the output Nyquist is removed before decimation instead of
+ * folding back as aliasing. Input history is carried between calls, so
+ * feeding a stream in arbitrary chunk sizes gives the same output as feeding
+ * it in one piece.
+ */
+export class StreamingResampler {
+  readonly inputRate: number;
+  readonly outputRate: number;
+
+  private readonly ratio: number;
+  private readonly halfWidth: number;
+  private readonly taps: number;
+  private readonly phases: number;
+  private readonly table: Float32Array;
+
+  private buffer: Float32Array;
+  private length: number;
+  /** Fractional index into `buffer` of the next output sample */
+  private position: number;
+
+  constructor(inputRate: number, outputRate: number, options: ResamplerOptions = {}) {
+    const { zeroCrossings = 8, phases = 256, rolloff = 0.9 } = options;
+
+    this.inputRate = inputRate;
+    this.outputRate = outputRate;
+    this.ratio = inputRate / outputRate;
+    this.phases = phases;
+
+    // Cutoff relative to the input Nyquist frequency
+    const cutoff = Math.min(1, 1 / this.ratio) * rolloff;
+    this.halfWidth = Math.ceil(zeroCrossings / cutoff);
+    this.taps = this.halfWidth * 2;
+    this.table = buildKernelTable(cutoff, this.halfWidth, phases);
+
+    // Zero history so the first outputs have a full kernel to read from
+    this.buffer = new Float32Array(this.taps + 4096);
+    this.length = this.halfWidth;
+    this.position = this.halfWidth;
+  }
+
+  /** Resample the next chunk of the stream. */
+  process(input: Float32Array): Float32Array {
+    this.ensureCapacity(this.length + input.length);
+    this.buffer.set(input, this.length);
+    this.length += input.length;
+
+    const maxOut = Math.ceil((this.length - this.halfWidth - this.position) / this.ratio) + 1;
+    const output = new Float32Array(Math.max(0, maxOut));
+    let produced = 0;
+
+    for (;;) {
+      let base = Math.floor(this.position);
+      let phase = Math.round((this.position - base) * this.phases);
+      if (phase === this.phases) {
+        base += 1;
+        phase = 0;
+      }
+      if (base + this.halfWidth >= this.length) break;
+
+      const start = base - this.halfWidth + 1;
+      const offset = phase * this.taps;
+      let acc = 0;
+      for (let j = 0; j < this.taps; j++) {
+        acc += this.buffer[start + j] * this.table[offset + j];
+      }
+      output[produced++] = acc;
+      this.position += this.ratio;
+    }
+
+    // Drop history no future output can reach
+    const keepFrom = Math.max(0, Math.floor(this.position) - this.halfWidth);
+    if (keepFrom > 0) {
+      this.buffer.copyWithin(0, keepFrom, this.length);
+      this.length -= keepFrom;
+      this.position -= keepFrom;
+    }
+
+    return output.subarray(0, produced);
+  }
+
+  private ensureCapacity(required: number) {
+    if (required <= this.buffer.length) return;
+    const next = new Float32Array(Math.max(required, this.buffer.length * 2));
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+}
+
+/**
+ * Precompute one normalised kernel row per fractional phase. Row `p` holds
+ * the taps for an output sample `p / phases` past an input sample.
+ */
+const buildKernelTable = (cutoff: number, halfWidth: number, phases: number): Float32Array => {
+  const taps = halfWidth * 2;
+  const table = new Float32Array(phases * taps);
+
+  for (let p = 0; p < phases; p++) {
+    const frac = p / phases;
+    let sum = 0;
+    for (let j = 0; j < taps; j++) {
+      const x = j - halfWidth + 1 - frac;
+      const u = cutoff * x;
+      const sinc = u === 0 ? 1 : Math.sin(Math.PI * u) / (Math.PI * u);
+      const w = Math.abs(x) >= halfWidth
+        ? 0
+        : 0.42 + 0.5 * Math.cos((Math.PI * x) / halfWidth) + 0.08 * Math.cos((2 * Math.PI * x) / halfWidth);
+      const h = sinc * w;
+      table[p * taps + j] = h;
+      sum += h;
+    }
+    // Unity gain at DC for every phase
+    for (let j = 0; j < taps; j++) {
+      table[p * taps + j] /= sum;
+    }
+  }
+
+  return table;
+};
+
+/* ────────────────────────────────────────────────────
+ *  Fixed-size frame accumulator
+ * ──────────────────────────────────────────────────── */
+
+/**
+ * Collects samples into exact `frameSize` frames. Samples that do not fill a
+ * frame are carried into the next `push`, so nothing is dropped at chunk
+ * boundaries.
+ */
+export class FrameAccumulator {
+  readonly frameSize: number;
+
+  private pending: Float32Array;
+  private length = 0;
+
+  constructor(frameSize: number) {
+    this.frameSize = frameSize;
+    this.pending = new Float32Array(frameSize);
+  }
+
+  push(samples: Float32Array, onFrame: (frame: Float32Array) => void) {
+    let offset = 0;
+    while (offset < samples.length) {
+      const take = Math.min(this.frameSize - this.length, samples.length - offset);
+      this.pending.set(samples.subarray(offset, offset + take), this.length);
+      this.length += take;
+      offset += take;
+
+      if (this.length === this.frameSize) {
+        onFrame(this.pending);
+        this.pending = new Float32Array(this.frameSize);
+        this.length = 0;
+      }
+    }
+  }
+}
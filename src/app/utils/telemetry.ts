@@ -0,0 +1,68 @@
+/**
+ * Browser side of `/api/telemetry`: queue events and send them in batches.
+ *
+ * Batches go out every few seconds or once enough pile up. When the page is
+ * hidden or unloaded the rest leave via `sendBeacon`, which survives the tab
+ * closing. Telemetry is best-effort: failed sends are dropped, never retried.
+ */
+
+import type { TelemetryBatch, TelemetryEvent, TelemetryRecord } from "@/lib/telemetry/types";
+
+const ENDPOINT = "/api/telemetry";
+const FLUSH_INTERVAL_MS = 10000;
+/* Send early once this many are queued; stays under the route's limit */
+const MAX_QUEUED = 20;
+
+/* ── Module-level queue shared by every caller on the page ── */
+let queue: TelemetryRecord[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let pageId: string | null = null;
+let listening = false;
+
+const listenForPageHide = () => {
+  if (listening) return;
+  listening = true;
+  // `visibilitychange` is the last event mobile browsers reliably fire
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flushTelemetry({ beacon: true });
+  });
+  window.addEventListener("pagehide", () => flushTelemetry({ beacon: true }));
+};
+
+/**
+ * Send everything queued now. Use `beacon` when the page may be going away.
+ */
+export const flushTelemetry = ({ beacon = false }: { beacon?: boolean } = {}) => {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  if (queue.length === 0) return;
+
+  const body = JSON.stringify({ events: queue } satisfies TelemetryBatch);
+  queue = [];
+
+  if (beacon && typeof navigator.sendBeacon === "function") {
+    if (navigator.sendBeacon(ENDPOINT, new Blob([body], { type: "application/json" }))) return;
+  }
+  fetch(ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: true,
+  }).catch(() => {
+    // best-effort
+  });
+};
+
+/** Queue one event; safe to call during server rendering (does nothing). */
+export const trackEvent = (event: TelemetryEvent) => {
+  if (typeof window === "undefined") return;
+  listenForPageHide();
+  pageId ??= crypto.randomUUID();
+
+  queue.push({ ...event, at: Date.now(), pageId });
+  if (queue.length >= MAX_QUEUED) {
+    flushTelemetry();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => flushTelemetry(), FLUSH_INTERVAL_MS);
+  }
+};
@@ -0,0 +1,55 @@
+/**
+ * Caption state built from server `transcript` messages.
+ */
+
+import type { TranscriptMessage } from "./protocol";
+
+export interface TranscriptEntry {
+  /** Server turn id — partials for the same turn replace each other */
+  id: string;
+  role: "user" | "assistant";
+  text: string;
+  final: boolean;
+  /** ms timestamp when the turn first appeared */
+  startedAt: number;
+}
+
+/**
+ * Fold one transcript message into the entry list, replacing the partial
+ * for the same turn or appending a new entry.
+ */
+export const applyTranscriptMessage = (
+  entries: TranscriptEntry[],
+  msg: TranscriptMessage,
+): TranscriptEntry[] => {
+  const index = entries.findIndex((e) => e.id === msg.turn_id && e.role === msg.role);
+
+  if (index === -1) {
+    if (!msg.text.trim()) return entries;
+    return [
+      ...entries,
+      { id: msg.turn_id, role: msg.role, text: msg.text, final: msg.final, startedAt: Date.now() },
+    ];
+  }
+
+  // A finalised turn does not go back to partial
+  if (entries[index].final && !msg.final) return entries;
+
+  const next = entries.slice();
+  next[index] = { ...entries[index], text: msg.text, final: msg.final };
+  return next;
+};
+
+/**
+ * Plain-text transcript for copying, one line per turn.
+ */
+export const formatTranscript = (
+  entries: TranscriptEntry[],
+  names: { user: string; assistant: string },
+): string =>
+  entries
+    .map((e) => {
+      const time = new Date(e.startedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+      return `[${time}] ${e.role === "user" ? names.user : names.assistant}: ${e.text}`;
+    })
+    .join("\n");
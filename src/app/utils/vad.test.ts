@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { createVad, type VadEvent, type VoiceActivityDetector } from "./vad";
+
+const FRAME_MS = 20;
+const FRAME_SIZE = 320; // 20 ms at 16 kHz
+
+/* Frame whose RMS is exactly `level` */
+const flat = (level: number) => () => new Float32Array(FRAME_SIZE).fill(level);
+
+const sine = (frequency: number, amplitude: number) => () =>
+  Float32Array.from({ length: FRAME_SIZE }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / 16000));
+
+/* Deterministic white noise, so the spectral checks don't flake */
+const whiteNoise = (amplitude: number) => {
+  let seed = 1;
+  return () =>
+    Float32Array.from({ length: FRAME_SIZE }, () => {
+      seed = (seed * 1664525 + 1013904223) % 2 ** 32;
+      return amplitude * (seed / 2 ** 31 - 1);
+    });
+};
+
+/* Drives a detector with 20 ms frames on a shared clock */
+const createFeeder = (vad: VoiceActivityDetector) => {
+  let timeMs = 0;
+  return (frame: () => Float32Array, durationMs: number) => {
+    const events: VadEvent[] = [];
+    let speaking = false;
+    for (let elapsed = 0; elapsed < durationMs; elapsed += FRAME_MS) {
+      const result = vad.process(frame(), timeMs);
+      timeMs += FRAME_MS;
+      if (result.event) events.push(result.event);
+      speaking = result.speaking;
+    }
+    return { events, speaking };
+  };
+};
+
+const QUIET_ROOM = flat(0.002);
+const LOUD = flat(0.1);
+/* Between the off (≈0.0067) and on (0.01) thresholds of a quiet room */
+const IN_BETWEEN = flat(0.008);
+
+describe("createVad: energy", () => {
+  it("starts speech only after the minimum voiced duration", () => {
+    const feed = createFeeder(createVad());
+    feed(QUIET_ROOM, 600);
+
+    expect(feed(LOUD, 40)).toEqual({ events: [], speaking: false });
+    expect(feed(QUIET_ROOM, 100).events).toEqual([]);
+    expect(feed(LOUD, 100)).toEqual({ events: ["speech_start"], speaking: true });
+  });
+
+  it("keeps speaking between the thresholds but does not start there", () => {
+    const feed = createFeeder(createVad());
+    feed(QUIET_ROOM, 600);
+
+    expect(feed(IN_BETWEEN, 400)).toEqual({ events: [], speaking: false });
+
+    feed(LOUD, 200);
+    expect(feed(IN_BETWEEN, 400)).toEqual({ events: [], speaking: true });
+  });
+
+  it("ends speech after the silence hangover, once", () => {
+    const feed = createFeeder(createVad({ silenceMs: 600 }));
+    feed(QUIET_ROOM, 600);
+    feed(LOUD, 200);
+
+    expect(feed(QUIET_ROOM, 500)).toEqual({ events: [], speaking: true });
+    expect(feed(QUIET_ROOM, 200)).toEqual({ events: ["speech_end"], speaking: false });
+    expect(feed(QUIET_ROOM, 1000).events).toEqual([]);
+  });
+
+  it("does not let a short dip end speech", () => {
+    const feed = createFeeder(createVad({ silenceMs: 600 }));
+    feed(QUIET_ROOM, 600);
+    feed(LOUD, 200);
+    feed(QUIET_ROOM, 400);
+
+    expect(feed(LOUD, 200)).toEqual({ events: [], speaking: true });
+    expect(feed(QUIET_ROOM, 500).speaking).toBe(true);
+  });
+
+  it("adapts to a noise source that starts mid-call", () => {
+    const feed = createFeeder(createVad());
+    feed(QUIET_ROOM, 600);
+
+    // A fan at 0.02 first reads as speech, then becomes the noise floor
+    const fan = feed(flat(0.02), 5000);
+    expect(fan.events).toEqual(["speech_start", "speech_end"]);
+    expect(fan.speaking).toBe(false);
+
+    expect(feed(LOUD, 200).events).toEqual(["speech_start"]);
+  });
+
+  it("forgets everything on reset", () => {
+    const vad = createVad();
+    const feed = createFeeder(vad);
+    feed(QUIET_ROOM, 600);
+    feed(LOUD, 200);
+
+    vad.reset();
+    const result = vad.process(QUIET_ROOM(), 10_000);
+    expect(result.speaking).toBe(false);
+    expect(result.threshold).toBe(0.01);
+  });
+});
+
+describe("createVad: spectral", () => {
+  it("ignores loud broadband noise that the energy strategy takes for speech", () => {
+    const energy = createFeeder(createVad());
+    const spectral = createFeeder(createVad({ strategy: "spectral" }));
+    energy(QUIET_ROOM, 600);
+    spectral(QUIET_ROOM, 600);
+
+    expect(energy(whiteNoise(0.2), 200).events).toEqual(["speech_start"]);
+    expect(spectral(whiteNoise(0.2), 200)).toEqual({ events: [], speaking: false });
+  });
+
+  it("still hears voiced sound", () => {
+    const feed = createFeeder(createVad({ strategy: "spectral" }));
+    feed(QUIET_ROOM, 600);
+
+    expect(feed(sine(200, 0.1), 200)).toEqual({ events: ["speech_start"], speaking: true });
+  });
+});
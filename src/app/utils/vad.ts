@@ -0,0 +1,262 @@
+/**
+ * Voice activity detection shared by every capture path.
+ *
+ * A detector is fed frames of float samples with a timestamp and reports
+ * when speech starts and ends. Strategies:
+ *
+ * - `energy` — RMS against an adaptive noise floor with separate on/off
+ *   thresholds (hysteresis), a minimum speech duration and a silence hangover
+ * - `spectral` — the same, but a frame only counts as voiced if its
+ *   zero-crossing rate and high-frequency share also look like speech, which
+ *   rejects fans, hiss and clicks that are merely loud
+ *
+ * The noise floor is tracked continuously as the minimum frame energy over a
+ * sliding window, so it follows a noise source that appears mid-call instead
+ * of holding the VAD open.
+ */
+
+/* ────────────────────────────────────────────────────
+ *  Types
+ * ──────────────────────────────────────────────────── */
+
+export type VadStrategyName = "energy" | "spectral";
+
+export type VadEvent = "speech_start" | "speech_end";
+
+export interface VadResult {
+  speaking: boolean;
+  /** Set on the frame where speech starts or ends */
+  event: VadEvent | null;
+  rms: number;
+  /** Current speech-onset threshold, for callers that need a louder bar */
+  threshold: number;
+}
+
+/** Everything the detector looked at for one frame */
+export interface VadDebugFrame {
+  timeMs: number;
+  rms: number;
+  noiseFloor: number;
+  onThreshold: number;
+  offThreshold: number;
+  /** This frame passed the strategy's speech test */
+  voiced: boolean;
+  speaking: boolean;
+  event: VadEvent | null;
+  /** Zero crossings per sample (spectral strategy only) */
+  zcr?: number;
+  /** Spectral tilt: ~0 for hum and voiced speech, ~1 for white noise (spectral only) */
+  hfRatio?: number;
+}
+
+export interface VoiceDetectorOptions {
+  /** Default `energy` */
+  strategy?: VadStrategyName;
+  /** RMS below which nothing is speech, however quiet the room (default 0.01) */
+  minThreshold?: number;
+  /** Speech starts above noise floor × this (default 3) */
+  onRatio?: number;
+  /** Speech continues above noise floor × this (default 2) */
+  offRatio?: number;
+  /** Voiced audio needed before speech starts, in ms (default 60) */
+  minSpeechMs?: number;
+  /** Unvoiced audio after which speech ends, in ms (default 600) */
+  silenceMs?: number;
+  /** Initial period whose mean energy seeds the noise floor (default 500) */
+  calibrationMs?: number;
+  /** Window the noise floor's minimum is taken over, in ms (default 2000) */
+  noiseWindowMs?: number;
+  /** Highest zero-crossing rate still treated as speech (spectral, default 0.35) */
+  maxZcr?: number;
+  /** Highest high-frequency energy share still treated as speech (spectral, default 0.6) */
+  maxHfRatio?: number;
+  /** Called with the detector's view of every frame */
+  onDebug?: (frame: VadDebugFrame) => void;
+}
+
+export interface VoiceActivityDetector {
+  readonly strategy: VadStrategyName;
+  /** Classify one frame; `timeMs` must increase monotonically */
+  process: (samples: Float32Array, timeMs: number) => VadResult;
+  /** Forget all state, including the noise floor */
+  reset: () => void;
+}
+
+/* The noise window is tracked as a ring of per-block minimums */
+const NOISE_BLOCK_MS = 250;
+/* Noise floor smoothing toward the window minimum */
+const FLOOR_RISE_TAU_MS = 400;
+const FLOOR_FALL_TAU_MS = 100;
+/* Longest gap between frames counted toward any duration */
+const MAX_FRAME_GAP_MS = 100;
+
+/* ────────────────────────────────────────────────────
+ *  Frame features
+ * ──────────────────────────────────────────────────── */
+
+export const frameRms = (samples: Float32Array): number => {
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  return samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0;
+};
+
+const zeroCrossingRate = (samples: Float32Array): number => {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings += 1;
+  }
+  return samples.length > 1 ? crossings / (samples.length - 1) : 0;
+};
+
+/* Energy of the first difference over twice the signal energy: a cheap
+ * spectral-tilt measure, 0 for DC, ~1 for white noise, 2 at Nyquist */
+const highFrequencyRatio = (samples: Float32Array): number => {
+  let energy = 0;
+  let diffEnergy = 0;
+  for (let i = 0; i < samples.length; i++) {
+    energy += samples[i] * samples[i];
+    if (i > 0) {
+      const d = samples[i] - samples[i - 1];
+      diffEnergy += d * d;
+    }
+  }
+  return energy > 0 ? diffEnergy / (2 * energy) : 0;
+};
+
+/* ────────────────────────────────────────────────────
+ *  Detector
+ * ──────────────────────────────────────────────────── */
+
+/**
+ * Create a detector. Pass the result to `startStreamingMic` or
+ * `recordUtteranceWithVAD` as `vad`, or call `process` directly.
+ */
+export const createVad = (options: VoiceDetectorOptions = {}): VoiceActivityDetector => {
+  const {
+    strategy = "energy",
+    minThreshold = 0.01,
+    onRatio = 3,
+    offRatio = 2,
+    minSpeechMs = 60,
+    silenceMs = 600,
+    calibrationMs = 500,
+    noiseWindowMs = 2000,
+    maxZcr = 0.35,
+    maxHfRatio = 0.6,
+    onDebug,
+  } = options;
+
+  const noiseBlocks = Math.max(1, Math.round(noiseWindowMs / NOISE_BLOCK_MS));
+
+  let startTime: number | null = null;
+  let lastTime = 0;
+  let calibrationSum = 0;
+  let calibrationCount = 0;
+  let noiseFloor = 0;
+  let blockMins: number[] = [];
+  let blockMin = Infinity;
+  let blockStart = 0;
+
+  let speaking = false;
+  let voicedMs = 0;
+  let unvoicedMs = 0;
+
+  const reset = () => {
+    startTime = null;
+    lastTime = 0;
+    calibrationSum = 0;
+    calibrationCount = 0;
+    noiseFloor = 0;
+    blockMins = [];
+    blockMin = Infinity;
+    blockStart = 0;
+    speaking = false;
+    voicedMs = 0;
+    unvoicedMs = 0;
+  };
+
+  const trackNoise = (rms: number, timeMs: number, dtMs: number) => {
+    blockMin = Math.min(blockMin, rms);
+    if (timeMs - blockStart >= NOISE_BLOCK_MS) {
+      blockMins.push(blockMin);
+      if (blockMins.length > noiseBlocks) blockMins.shift();
+      blockMin = Infinity;
+      blockStart = timeMs;
+    }
+
+    if (timeMs - startTime! < calibrationMs) {
+      calibrationSum += rms;
+      calibrationCount += 1;
+      noiseFloor = calibrationSum / calibrationCount;
+      return;
+    }
+
+    const windowMin = Math.min(blockMin, ...blockMins);
+    const tau = windowMin > noiseFloor ? FLOOR_RISE_TAU_MS : FLOOR_FALL_TAU_MS;
+    noiseFloor += (windowMin - noiseFloor) * (1 - Math.exp(-dtMs / tau));
+  };
+
+  const process = (samples: Float32Array, timeMs: number): VadResult => {
+    if (startTime === null) {
+      startTime = timeMs;
+      lastTime = timeMs;
+      blockStart = timeMs;
+    }
+    const dtMs = Math.min(Math.max(timeMs - lastTime, 0), MAX_FRAME_GAP_MS);
+    lastTime = timeMs;
+
+    const rms = frameRms(samples);
+    trackNoise(rms, timeMs, dtMs);
+
+    const onThreshold = Math.max(minThreshold, noiseFloor * onRatio);
+    const offThreshold = Math.max(minThreshold * (offRatio / onRatio), noiseFloor * offRatio);
+
+    let voiced = rms >= (speaking ? offThreshold : onThreshold);
+    let zcr: number | undefined;
+    let hfRatio: number | undefined;
+    if (strategy === "spectral" && voiced) {
+      zcr = zeroCrossingRate(samples);
+      hfRatio = highFrequencyRatio(samples);
+      voiced = zcr <= maxZcr && hfRatio <= maxHfRatio;
+    }
+
+    let event: VadEvent | null = null;
+    if (voiced) {
+      voicedMs += dtMs;
+      unvoicedMs = 0;
+      if (!speaking && voicedMs >= minSpeechMs) {
+        speaking = true;
+        event = "speech_start";
+      }
+    } else {
+      unvoicedMs += dtMs;
+      if (!speaking) voicedMs = 0;
+      if (speaking && unvoicedMs >= silenceMs) {
+        speaking = false;
+        voicedMs = 0;
+        event = "speech_end";
+      }
+    }
+
+    if (typeof onDebug === "function") {
+      onDebug({
+        timeMs,
+        rms,
+        noiseFloor,
+        onThreshold,
+        offThreshold,
+        voiced,
+        speaking,
+        event,
+        zcr,
+        hfRatio,
+      });
+    }
+
+    return { speaking, event, rms, threshold: onThreshold };
+  };
+
+  return { strategy, process, reset };
+};
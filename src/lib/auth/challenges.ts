@@ -0,0 +1,101 @@
+/**
+ * Pending OTP codes and magic-link tokens. Held in memory, so a multi-instance
+ * deployment needs a shared store behind the same functions.
+ */
+
+import { createHash, randomBytes, randomInt } from "crypto";
+import { safeEqual } from "../signature";
+
+const OTP_TTL_MS = 5 * 60 * 1000;
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+const MAX_OTP_ATTEMPTS = 5;
+/** Minimum gap between two codes/links for the same identifier */
+const RESEND_INTERVAL_MS = 30 * 1000;
+
+interface Challenge {
+  identifier: string;
+  hash: string;
+  expiresAt: number;
+  attempts: number;
+  issuedAt: number;
+}
+
+/* Survive dev-server module reloads */
+const globalStore = globalThis as typeof globalThis & {
+  __authOtps?: Map<string, Challenge>;
+  __authMagicLinks?: Map<string, Challenge>;
+};
+const otps = (globalStore.__authOtps ??= new Map());
+const magicLinks = (globalStore.__authMagicLinks ??= new Map());
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest("hex");
+
+const recentlyIssued = (identifier: string, store: Map<string, Challenge>) => {
+  const now = Date.now();
+  for (const challenge of store.values()) {
+    if (challenge.identifier === identifier && now - challenge.issuedAt < RESEND_INTERVAL_MS) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const pruneExpired = (store: Map<string, Challenge>) => {
+  const now = Date.now();
+  for (const [key, challenge] of store) {
+    if (challenge.expiresAt <= now) store.delete(key);
+  }
+};
+
+/** New 6-digit code for `phone`, or null while the resend interval runs. */
+export const issueOtp = (phone: string): string | null => {
+  pruneExpired(otps);
+  if (recentlyIssued(phone, otps)) return null;
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const now = Date.now();
+  otps.set(phone, { identifier: phone, hash: sha256(code), expiresAt: now + OTP_TTL_MS, attempts: 0, issuedAt: now });
+  return code;
+};
+
+/** Checks `code` for `phone`; a correct code can only be used once. */
+export const consumeOtp = (phone: string, code: string): boolean => {
+  const challenge = otps.get(phone);
+  if (!challenge || challenge.expiresAt <= Date.now()) return false;
+
+  challenge.attempts += 1;
+  if (challenge.attempts > MAX_OTP_ATTEMPTS) {
+    otps.delete(phone);
+    return false;
+  }
+  if (!safeEqual(challenge.hash, sha256(code))) return false;
+
+  otps.delete(phone);
+  return true;
+};
+
+/** New single-use link token for `email`, or null while the resend interval runs. */
+export const issueMagicLinkToken = (email: string): string | null => {
+  pruneExpired(magicLinks);
+  if (recentlyIssued(email, magicLinks)) return null;
+
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  magicLinks.set(sha256(token), {
+    identifier: email,
+    hash: sha256(token),
+    expiresAt: now + MAGIC_LINK_TTL_MS,
+    attempts: 0,
+    issuedAt: now,
+  });
+  return token;
+};
+
+/** Returns the email a valid link token was issued for, consuming it. */
+export const consumeMagicLinkToken = (token: string): string | null => {
+  const key = sha256(token);
+  const challenge = magicLinks.get(key);
+  magicLinks.delete(key);
+  if (!challenge || challenge.expiresAt <= Date.now()) return null;
+  return challenge.identifier;
+};
@@ -0,0 +1,70 @@
+/**
+ * Picks the code / link delivery provider from `AUTH_DELIVERY_PROVIDER`.
+ * Only the logging `stub` ships here; add vendors behind the same interface.
+ */
+
+import { createStubDeliveryProvider } from "./stubProvider";
+import type { AuthDeliveryProvider } from "./types";
+
+let provider: AuthDeliveryProvider | null = null;
+
+export const getDeliveryProvider = (): AuthDeliveryProvider => {
+  if (provider) return provider;
+
+  const configured = process.env.AUTH_DELIVERY_PROVIDER || "stub";
+  if (configured !== "stub") {
+    throw new Error(`Unknown AUTH_DELIVERY_PROVIDER "${configured}"`);
+  }
+  if (process.env.NODE_ENV === "production" && !process.env.AUTH_ALLOW_STUB) {
+    throw new Error("The stub auth provider only logs codes; set AUTH_ALLOW_STUB to use it in production");
+  }
+
+  provider = createStubDeliveryProvider();
+  return provider;
+};
+
+/**
+ * Public origin for links sent by email, from `APP_BASE_URL`. Never taken from
+ * the request: its Host header is whatever the caller sent.
+ */
+export const getAppBaseUrl = (): string => {
+  const base = process.env.APP_BASE_URL;
+  if (base) return base;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("APP_BASE_URL is not set");
+  }
+  return "http://localhost:3000";
+};
+
+/** `+<country><number>`; bare 10-digit numbers are taken as Indian (+91). */
+export const normalizePhone = (input: string): string | null => {
+  const digits = input.replace(/[\s()-]/g, "");
+  const phone = /^\d{10}$/.test(digits) ? `+91${digits}` : digits;
+  return /^\+[1-9]\d{7,14}$/.test(phone) ? phone : null;
+};
+
+export const normalizeEmail = (input: string): string | null => {
+  const email = input.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null;
+};
+
+const LOCAL_ORIGIN = "http://local.invalid";
+
+/**
+ * The same-site path `value` resolves to, or null if it could leave the site
+ * (`//host`, absolute URLs, or tabs / newlines that URL parsing strips).
+ * Guards redirects.
+ */
+export const toLocalPath = (value: string): string | null => {
+  if (!value.startsWith("/") || /[\s\u0000-\u001f\u007f]/.test(value)) return null;
+  try {
+    const url = new URL(value, LOCAL_ORIGIN);
+    // Dot segments can normalize to `//host`, which is protocol-relative again
+    if (url.origin !== LOCAL_ORIGIN || url.pathname.startsWith("//")) return null;
+    return url.pathname + url.search + url.hash;
+  } catch {
+    return null;
+  }
+};
+
+export type * from "./types";
@@ -0,0 +1,75 @@
+/**
+ * Signed session cookie and the short-lived call token derived from it.
+ */
+
+import { createHash } from "crypto";
+import type { NextResponse } from "next/server";
+import { readSignedPayload, signPayload } from "../signature";
+import type { AuthUser, SignInMethod } from "./types";
+
+export const SESSION_COOKIE = "sm_session";
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const CALL_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+interface SessionPayload {
+  user: AuthUser;
+  exp: number;
+  /** Distinguishes call tokens from session cookies signed with the same key */
+  aud: "session" | "call";
+}
+
+const getSecret = (): string => {
+  const secret = process.env.AUTH_SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SESSION_SECRET is not set");
+  }
+  return "dev-auth-session-secret";
+};
+
+export const userFor = (method: SignInMethod, identifier: string): AuthUser => ({
+  id: createHash("sha256").update(`${method}:${identifier}`).digest("hex").slice(0, 24),
+  method,
+  identifier,
+});
+
+const readToken = (token: string | undefined, aud: SessionPayload["aud"]): AuthUser | null => {
+  if (!token) return null;
+  const payload = readSignedPayload<SessionPayload>(getSecret(), token);
+  return payload && payload.aud === aud && payload.exp > Date.now() ? payload.user : null;
+};
+
+/** The signed-in user for a session cookie value, if still valid. */
+export const readSession = (cookieValue: string | undefined): AuthUser | null =>
+  readToken(cookieValue, "session");
+
+/** The user a call token was issued to, if still valid. For the call backend. */
+export const readCallToken = (token: string | undefined): AuthUser | null => readToken(token, "call");
+
+export const signCallToken = (user: AuthUser): string =>
+  signPayload(getSecret(), { user, exp: Date.now() + CALL_TOKEN_TTL_MS, aud: "call" });
+
+/**
+ * Set the session cookie. `AUTH_COOKIE_DOMAIN` widens it to a parent domain
+ * so the call backend's WebSocket handshake receives it too.
+ */
+export const setSessionCookie = (response: NextResponse, user: AuthUser) => {
+  const value = signPayload(getSecret(), { user, exp: Date.now() + SESSION_TTL_MS, aud: "session" });
+  response.cookies.set(SESSION_COOKIE, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+    domain: process.env.AUTH_COOKIE_DOMAIN || undefined,
+  });
+};
+
+export const clearSessionCookie = (response: NextResponse) => {
+  response.cookies.set(SESSION_COOKIE, "", {
+    path: "/",
+    maxAge: 0,
+    domain: process.env.AUTH_COOKIE_DOMAIN || undefined,
+  });
+};
@@ -0,0 +1,17 @@
+/**
+ * Development delivery provider: prints codes and links to the server log.
+ */
+
+import type { AuthDeliveryProvider } from "./types";
+
+export const createStubDeliveryProvider = (): AuthDeliveryProvider => ({
+  id: "stub",
+
+  sendOtp: async (phone, code) => {
+    console.info(`[auth] OTP for ${phone}: ${code}`);
+  },
+
+  sendMagicLink: async (email, url) => {
+    console.info(`[auth] magic link for ${email}: ${url}`);
+  },
+});
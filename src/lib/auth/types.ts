@@ -0,0 +1,42 @@
+/**
+ * Sign-in types shared by the `/api/auth/*` routes and the browser.
+ */
+
+export type SignInMethod = "phone" | "email";
+
+export interface AuthUser {
+  /** Stable id derived from the verified identifier */
+  id: string;
+  method: SignInMethod;
+  /** Verified phone number (E.164) or email address */
+  identifier: string;
+}
+
+/**
+ * Delivers one-time codes and magic links. Swap the implementation for an
+ * SMS / email vendor in production; the stub only logs.
+ */
+export interface AuthDeliveryProvider {
+  readonly id: string;
+  sendOtp: (phone: string, code: string) => Promise<void>;
+  sendMagicLink: (email: string, url: string) => Promise<void>;
+}
+
+/**
+ * `error` in a failed `/api/auth/*` response. The browser turns it into
+ * a message in the user's language.
+ */
+export type AuthErrorCode =
+  | "invalid_phone"
+  | "invalid_email"
+  | "invalid_code"
+  | "wrong_code"
+  | "too_soon"
+  | "delivery_failed";
+
+/** Shape returned by `GET /api/auth/session` */
+export interface SessionResponse {
+  user: AuthUser | null;
+  /** Short-lived token the call sends in `session_start`; null for guests */
+  callToken: string | null;
+}
@@ -0,0 +1,69 @@
+/**
+ * Loads the creator catalog:
+ *
+ * - `CREATOR_CATALOG_URL` — a JSON array of catalog entries, re-fetched every
+ *   few minutes so creators can be onboarded without a deploy
+ * - otherwise the bundled `catalog.json`
+ */
+
+import { TIME_OPTIONS, type TimeOption } from "../pricing";
+import bundledCatalog from "./catalog.json";
+import type { Creator, CreatorRecord } from "./types";
+
+const DEFAULT_WS_URL = process.env.NEXT_PUBLIC_BACKEND_WS_URL || "ws://localhost:8000/ws/audio";
+
+const CATALOG_REVALIDATE_SECONDS = 300;
+
+const isPositiveNumber = (value: unknown): boolean =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const isTimeOption = (value: unknown): value is TimeOption => {
+  if (typeof value !== "object" || value === null) return false;
+  const option = value as Record<string, unknown>;
+  return isPositiveNumber(option.minutes) && isPositiveNumber(option.price) && typeof option.label === "string";
+};
+
+const isCreatorRecord = (value: unknown): value is CreatorRecord => {
+  if (typeof value !== "object" || value === null) return false;
+  const record = value as Record<string, unknown>;
+  const images = record.images as Record<string, unknown> | undefined;
+  return (
+    ["slug", "name", "role", "description", "voiceId", "personaId"].every((key) => typeof record[key] === "string") &&
+    typeof images?.hero === "string" &&
+    (record.timeOptions === undefined || (Array.isArray(record.timeOptions) && record.timeOptions.every(isTimeOption))) &&
+    (record.wsUrl === undefined || typeof record.wsUrl === "string")
+  );
+};
+
+const loadRecords = async (): Promise<CreatorRecord[]> => {
+  const url = process.env.CREATOR_CATALOG_URL;
+  if (!url) return bundledCatalog as CreatorRecord[];
+
+  const res = await fetch(url, { next: { revalidate: CATALOG_REVALIDATE_SECONDS } });
+  if (!res.ok) {
+    throw new Error(`Creator catalog fetch failed with ${res.status}`);
+  }
+  const data: unknown = await res.json();
+  if (!Array.isArray(data)) {
+    throw new Error("Creator catalog must be a JSON array");
+  }
+  return data.filter((entry) => {
+    if (isCreatorRecord(entry)) return true;
+    console.warn("[creators] skipping invalid catalog entry", entry);
+    return false;
+  });
+};
+
+const resolveCreator = (record: CreatorRecord): Creator => ({
+  ...record,
+  images: { hero: record.images.hero, avatar: record.images.avatar ?? record.images.hero },
+  timeOptions: record.timeOptions?.length ? record.timeOptions : TIME_OPTIONS,
+  wsUrl: record.wsUrl ?? DEFAULT_WS_URL,
+});
+
+export const listCreators = async (): Promise<Creator[]> => (await loadRecords()).map(resolveCreator);
+
+export const getCreator = async (slug: string): Promise<Creator | null> =>
+  (await listCreators()).find((creator) => creator.slug === slug) ?? null;
+
+export type * from "./types";
@@ -0,0 +1,37 @@
+/**
+ * Creator catalog: everyone users can book a voice session with.
+ */
+
+import type { TimeOption } from "../pricing";
+
+export interface CreatorImages {
+  /** Large portrait for the hero and link previews */
+  hero: string;
+  /** Square crop for the call screen and catalog cards (defaults to `hero`) */
+  avatar: string;
+}
+
+export interface Creator {
+  /** URL segment under `/creators/` and the id the backend sees */
+  slug: string;
+  name: string;
+  role: string;
+  /** One line for the catalog card and page metadata */
+  description: string;
+  images: CreatorImages;
+  /** Session lengths and prices for this creator */
+  timeOptions: TimeOption[];
+  /** TTS voice the backend should speak with */
+  voiceId: string;
+  /** Persona / prompt profile the backend should load */
+  personaId: string;
+  /** Call WebSocket endpoint */
+  wsUrl: string;
+}
+
+/** Catalog entry as stored; omitted fields fall back to the defaults */
+export type CreatorRecord = Omit<Creator, "images" | "timeOptions" | "wsUrl"> & {
+  images: Pick<CreatorImages, "hero"> & Partial<CreatorImages>;
+  timeOptions?: TimeOption[];
+  wsUrl?: string;
+};
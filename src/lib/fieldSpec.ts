@@ -0,0 +1,22 @@
+/**
+ * Field checks for untrusted JSON, shared by the call protocol parser and the
+ * telemetry route.
+ */
+
+/** A primitive type, optionally suffixed `?`, or a list of allowed string values */
+export type FieldSpec = "string" | "number" | "boolean" | "string?" | "number?" | readonly string[];
+
+/**
+ * Whether `value` matches `spec`. Numbers must be finite; strings longer than
+ * `maxLength` are rejected.
+ */
+export const checkField = (value: unknown, spec: FieldSpec, maxLength = Infinity): boolean => {
+  if (typeof spec !== "string") return typeof value === "string" && spec.includes(value);
+  const optional = spec.endsWith("?");
+  if (value === undefined) return optional;
+
+  const type = spec.replace("?", "");
+  if (type === "number") return typeof value === "number" && Number.isFinite(value);
+  if (type === "string") return typeof value === "string" && value.length <= maxLength;
+  return typeof value === type;
+};
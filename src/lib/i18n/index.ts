@@ -0,0 +1,87 @@
+/**
+ * UI locales, their message catalogs and locale-aware formatting.
+ *
+ * Shared by server components (via `./server`) and the browser (via
+ * `I18nProvider`). The chosen locale lives in a cookie so server-rendered
+ * pages come out in the right language; without one the browser's
+ * `Accept-Language` decides.
+ */
+
+import { CURRENCY } from "../pricing";
+import { en, type Messages } from "./messages/en";
+import { hi } from "./messages/hi";
+import { te } from "./messages/te";
+
+export type { Messages } from "./messages/en";
+
+export const LOCALES = ["te", "hi", "en"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+export const LOCALE_COOKIE = "locale";
+
+/** Each language's name in itself, for the switcher */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  te: "తెలుగు",
+  hi: "हिन्दी",
+  en: "English",
+};
+
+/** Region-qualified tags for `Intl` formatting */
+const INTL_LOCALES: Record<Locale, string> = {
+  te: "te-IN",
+  hi: "hi-IN",
+  en: "en-IN",
+};
+
+/** Tag sent to the backend as the call's conversation language (STT and TTS) */
+export const SPOKEN_LANGUAGE_TAGS: Record<Locale, string> = INTL_LOCALES;
+
+const MESSAGES: Record<Locale, Messages> = { te, hi, en };
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+
+/**
+ * Best supported locale for an `Accept-Language` header, by quality and
+ * primary subtag ("te-IN" matches "te").
+ */
+export const negotiateLocale = (acceptLanguage: string | null | undefined): Locale => {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+  const ranked = acceptLanguage
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+      return { tag: tag.toLowerCase(), q: q ? Number(q.slice(2)) || 0 : 1 };
+    })
+    .filter(({ tag, q }) => tag && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranked) {
+    const primary = tag.split("-")[0];
+    if (isLocale(primary)) return primary;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const getMessages = (locale: Locale): Messages => MESSAGES[locale];
+
+/** Whole-rupee price, e.g. "₹299" */
+export const formatPrice = (locale: Locale, amount: number): string =>
+  new Intl.NumberFormat(INTL_LOCALES[locale], {
+    style: "currency",
+    currency: CURRENCY,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+/** Session length, e.g. "15 min"; under a minute it is shown in seconds */
+export const formatSessionLength = (locale: Locale, minutes: number): string =>
+  minutes < 1
+    ? new Intl.NumberFormat(INTL_LOCALES[locale], { style: "unit", unit: "second", unitDisplay: "short" }).format(
+        Math.round(minutes * 60),
+      )
+    : new Intl.NumberFormat(INTL_LOCALES[locale], { style: "unit", unit: "minute", unitDisplay: "short" }).format(minutes);
+
+export const formatDateTime = (locale: Locale, timestamp: number): string =>
+  new Date(timestamp).toLocaleString(INTL_LOCALES[locale]);
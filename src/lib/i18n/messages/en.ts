@@ -0,0 +1,185 @@
+/**
+ * English UI strings; the shape every other locale must match.
+ *
+ * Pairs are the text before and after a value the UI highlights, so each
+ * language can put the value where its word order needs it.
+ */
+
+type Around = readonly [before: string, after: string];
+
+export const en = {
+  meta: {
+    title: "Voice Chat",
+    description: "Premium interactive voice chat with your favourite creators. Start a live session now.",
+    creatorTitle: (name: string) => `${name} — Voice Chat`,
+  },
+  common: {
+    language: "Language",
+    processing: "Processing...",
+    paymentPending: "Your payment is still being confirmed.",
+    checkAgain: "Check again",
+    paymentFailed: "Payment failed.",
+    paymentCancelled: "Payment cancelled. You have not been charged.",
+    /* By `CheckoutError` */
+    paymentErrors: {
+      start_failed: "Could not start checkout.",
+      checkout_unavailable: "The payment page could not be opened.",
+      declined: "Payment failed.",
+      verify_failed: "Could not verify your payment.",
+      network: "Network error, please try again.",
+    },
+  },
+  home: {
+    callHistory: "Call history",
+    eyebrow: "Live Voice Sessions",
+    title: "Talk to your favourites.",
+    empty: "No creators are available right now. Please check back soon.",
+    fromPrice: (price: string) => `from ${price}`,
+  },
+  session: {
+    startSession: "Start Session",
+    copyTranscript: "Copy last call transcript",
+    transcriptCopied: "Transcript copied",
+    recordingSaved: "Recording saved · View call history",
+    authTitle: "Identification.",
+    authSubtitle: "Sign in to keep your minutes and history, or continue as a guest.",
+    micCheckTitle: "Mic Check.",
+    micCheckSubtitle: "Pick your microphone and make sure we can hear you before you pay.",
+    paymentTitle: "Duration.",
+    paymentSubtitle: "Select your preferred session length.",
+    signedInAs: ["Signed in as ", ""] as Around,
+    signOut: "Sign out",
+    tryAgain: "Try Again",
+    beginSession: "Begin Session",
+    checkoutDescription: (length: string, name: string) => `${length} session with ${name}`,
+  },
+  call: {
+    status: {
+      connecting: "Connecting...",
+      listening: "Listening...",
+      speaking: "Speaking...",
+      reconnecting: "Reconnecting...",
+      dropped: "Call Dropped",
+      ending: "Wrapping Up...",
+    },
+    showCaptions: "Show captions",
+    hideCaptions: "Hide captions",
+    recordCall: "Record this call",
+    stopRecording: "Stop recording",
+    endCall: "End call",
+    timeLeft: "Time Left",
+    oneMinuteLeft: "1 minute left",
+    addingTime: "Adding time...",
+    addTime: "+ Add time",
+    runningLow: "Running low · Add time",
+    timeAdded: (length: string) => `+${length} added`,
+    topUpRejected: "Couldn't add time to this call",
+    topUpRejectedReasons: {
+      invalid_payment: "Your payment couldn't be confirmed, so no time was added",
+      session_over: "This call had already ended, so no time was added",
+    },
+    interruptSensitivity: "Interrupt Sensitivity",
+    bargeIn: { off: "Off", low: "Low", medium: "Med", high: "High" },
+    droppedMessage: "We couldn't reconnect to the call. Please check your connection and try again.",
+    backHome: "Back to Home",
+    useMicrophone: "Use microphone",
+    typeInstead: "Type instead",
+    micBlocked: "Microphone access is blocked, so this call is text-only. Type below to talk.",
+    micFailed: "We couldn't start your microphone. Type below to talk.",
+    qualityWarnings: {
+      latency: "Your connection is slow, so replies may take longer.",
+      jitter: "Your connection is unstable, so audio may break up.",
+      loss: "Your connection keeps dropping out.",
+      uplink: "Your upload is struggling, so we may not hear you clearly.",
+      downlink: "Audio is arriving unevenly, so replies may stutter.",
+    },
+    connection: (quality: string) => `Connection: ${quality}`,
+    offline: "Connection: offline",
+    qualityLabels: ["Very poor", "Poor", "Fair", "Good", "Excellent"],
+    /* Connection details in the signal bars' tooltip */
+    stats: {
+      ping: (ms: number) => `ping ${ms} ms`,
+      jitter: (ms: number) => `jitter ${ms} ms`,
+      loss: (percent: number) => `loss ${percent}%`,
+      uplinkBacklog: (ms: number) => `upload backlog ${ms} ms`,
+      audioGaps: (ms: number) => `audio gaps up to ${ms} ms`,
+    },
+    playbackHealth: (bufferedMs: number, underruns: number) => `buffer ${bufferedMs} ms · underruns ${underruns}`,
+  },
+  transcript: {
+    chat: "Chat",
+    captions: "Captions",
+    copy: "Copy",
+    copied: "Copied",
+    logLabel: "Call captions",
+    emptyChat: "Captions and messages will appear here.",
+    emptyCaptions: "Captions will appear here.",
+    you: "You",
+    placeholder: "Type a message...",
+    messageLabel: "Message",
+    send: "Send",
+  },
+  signIn: {
+    phone: "Phone",
+    email: "Email",
+    mobileNumber: "Mobile number",
+    sending: "Sending...",
+    sendCode: "Send Code",
+    sendLink: "Send Sign-in Link",
+    codeSent: ["Enter the code we sent to ", "."] as Around,
+    codePlaceholder: "6-digit code",
+    verifying: "Verifying...",
+    verify: "Verify",
+    differentNumber: "Use a different number",
+    linkSent: ["Check ", " for a sign-in link. Open it on this device to continue."] as Around,
+    or: "or",
+    continueAsGuest: "Continue as Guest",
+    /* By `AuthError` */
+    errors: {
+      invalid_phone: "Enter a valid phone number",
+      invalid_email: "Enter a valid email address",
+      invalid_code: "Enter the 6-digit code",
+      wrong_code: "That code is wrong or has expired",
+      too_soon: "Please wait before requesting another one",
+      delivery_failed: "Could not send it, please try again",
+      network: "Network error, please try again",
+      unknown: "Something went wrong",
+    },
+  },
+  micCheck: {
+    microphone: "Microphone",
+    systemDefault: "System default",
+    microphoneN: (n: number) => `Microphone ${n}`,
+    conversationLanguage: "Conversation language",
+    level: "Microphone level",
+    accessError: "We can't access your microphone. Check your browser permissions.",
+    hint: "Speak and watch the bar move, or record a short test.",
+    listening: "Listening... say a few words.",
+    playing: "Playing back your sample.",
+    noSpeech: "We didn't hear anything. Try speaking closer or pick another microphone.",
+    recording: "Recording...",
+    recordTest: "Record Test",
+    playBack: "Play Back",
+    soundsGood: "Sounds Good",
+  },
+  addTime: {
+    title: "Add time.",
+    subtitle: "Your call keeps going while you pay.",
+    dialogLabel: "Add time",
+    pay: "Add Time",
+    checkoutDescription: (length: string, name: string) => `${length} top-up with ${name}`,
+  },
+  history: {
+    allCreators: "← All creators",
+    title: "Call history.",
+    subtitle: "Recordings are kept only in this browser. Clearing site data removes them.",
+    loadError: "Couldn't open saved recordings in this browser.",
+    loading: "Loading...",
+    empty: "No recordings yet. Tap REC during a call to keep a copy here.",
+    download: "Download",
+    delete: "Delete",
+    confirmDelete: "Delete this recording? This cannot be undone.",
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,173 @@
+import type { Messages } from "./en";
+
+export const hi: Messages = {
+  meta: {
+    title: "वॉइस चैट",
+    description: "अपने पसंदीदा क्रिएटर्स के साथ प्रीमियम इंटरैक्टिव वॉइस चैट। अभी लाइव सेशन शुरू करें।",
+    creatorTitle: (name) => `${name} — वॉइस चैट`,
+  },
+  common: {
+    language: "भाषा",
+    processing: "प्रोसेस हो रहा है...",
+    paymentPending: "आपके भुगतान की अभी पुष्टि हो रही है।",
+    checkAgain: "फिर से जाँचें",
+    paymentFailed: "भुगतान विफल रहा।",
+    paymentCancelled: "भुगतान रद्द हो गया। आपसे कोई शुल्क नहीं लिया गया।",
+    paymentErrors: {
+      start_failed: "भुगतान शुरू नहीं हो सका।",
+      checkout_unavailable: "भुगतान पेज नहीं खुल सका।",
+      declined: "भुगतान विफल रहा।",
+      verify_failed: "आपके भुगतान की पुष्टि नहीं हो सकी।",
+      network: "नेटवर्क त्रुटि, कृपया फिर से कोशिश करें।",
+    },
+  },
+  home: {
+    callHistory: "कॉल इतिहास",
+    eyebrow: "लाइव वॉइस सेशन",
+    title: "अपने पसंदीदा सितारों से बात करें।",
+    empty: "अभी कोई क्रिएटर उपलब्ध नहीं है। कृपया थोड़ी देर बाद देखें।",
+    fromPrice: (price) => `${price} से`,
+  },
+  session: {
+    startSession: "सेशन शुरू करें",
+    copyTranscript: "पिछली कॉल का ट्रांसक्रिप्ट कॉपी करें",
+    transcriptCopied: "ट्रांसक्रिप्ट कॉपी हो गया",
+    recordingSaved: "रिकॉर्डिंग सेव हो गई · कॉल इतिहास देखें",
+    authTitle: "पहचान।",
+    authSubtitle: "अपने मिनट और इतिहास सुरक्षित रखने के लिए साइन इन करें, या मेहमान के रूप में जारी रखें।",
+    micCheckTitle: "माइक चेक।",
+    micCheckSubtitle: "भुगतान से पहले अपना माइक्रोफ़ोन चुनें और पक्का करें कि हम आपको सुन पा रहे हैं।",
+    paymentTitle: "अवधि।",
+    paymentSubtitle: "अपनी पसंद की सेशन अवधि चुनें।",
+    signedInAs: ["", " के रूप में साइन इन"],
+    signOut: "साइन आउट",
+    tryAgain: "फिर से कोशिश करें",
+    beginSession: "सेशन शुरू करें",
+    checkoutDescription: (length, name) => `${name} के साथ ${length} का सेशन`,
+  },
+  call: {
+    status: {
+      connecting: "कनेक्ट हो रहा है...",
+      listening: "सुन रहे हैं...",
+      speaking: "बोल रहे हैं...",
+      reconnecting: "फिर से कनेक्ट हो रहा है...",
+      dropped: "कॉल कट गई",
+      ending: "समाप्त हो रही है...",
+    },
+    showCaptions: "कैप्शन दिखाएँ",
+    hideCaptions: "कैप्शन छिपाएँ",
+    recordCall: "यह कॉल रिकॉर्ड करें",
+    stopRecording: "रिकॉर्डिंग रोकें",
+    endCall: "कॉल समाप्त करें",
+    timeLeft: "बचा हुआ समय",
+    oneMinuteLeft: "1 मिनट बचा है",
+    addingTime: "समय जोड़ा जा रहा है...",
+    addTime: "+ समय जोड़ें",
+    runningLow: "समय कम है · समय जोड़ें",
+    timeAdded: (length) => `+${length} जोड़ा गया`,
+    topUpRejected: "इस कॉल में समय नहीं जोड़ा जा सका",
+    topUpRejectedReasons: {
+      invalid_payment: "आपका भुगतान पुष्ट नहीं हो सका, इसलिए समय नहीं जोड़ा गया",
+      session_over: "यह कॉल पहले ही खत्म हो चुकी थी, इसलिए समय नहीं जोड़ा गया",
+    },
+    interruptSensitivity: "बीच में रोकने की संवेदनशीलता",
+    bargeIn: { off: "बंद", low: "कम", medium: "मध्यम", high: "ज़्यादा" },
+    droppedMessage: "हम कॉल से दोबारा नहीं जुड़ पाए। कृपया अपना कनेक्शन जाँचें और फिर से कोशिश करें।",
+    backHome: "होम पर जाएँ",
+    useMicrophone: "माइक्रोफ़ोन इस्तेमाल करें",
+    typeInstead: "टाइप करें",
+    micBlocked: "माइक्रोफ़ोन की अनुमति ब्लॉक है, इसलिए यह कॉल सिर्फ़ टेक्स्ट में है। बात करने के लिए नीचे टाइप करें।",
+    micFailed: "हम आपका माइक्रोफ़ोन शुरू नहीं कर पाए। बात करने के लिए नीचे टाइप करें।",
+    qualityWarnings: {
+      latency: "आपका कनेक्शन धीमा है, इसलिए जवाब आने में देर लग सकती है।",
+      jitter: "आपका कनेक्शन अस्थिर है, इसलिए आवाज़ टूट सकती है।",
+      loss: "आपका कनेक्शन बार-बार टूट रहा है।",
+      uplink: "आपका अपलोड धीमा है, इसलिए हम आपको साफ़ नहीं सुन पाएँगे।",
+      downlink: "आवाज़ रुक-रुक कर आ रही है, इसलिए जवाब अटक सकते हैं।",
+    },
+    connection: (quality) => `कनेक्शन: ${quality}`,
+    offline: "कनेक्शन: ऑफ़लाइन",
+    qualityLabels: ["बहुत कमज़ोर", "कमज़ोर", "ठीक-ठाक", "अच्छा", "बेहतरीन"],
+    stats: {
+      ping: (ms) => `पिंग ${ms} ms`,
+      jitter: (ms) => `जिटर ${ms} ms`,
+      loss: (percent) => `नुकसान ${percent}%`,
+      uplinkBacklog: (ms) => `अपलोड बैकलॉग ${ms} ms`,
+      audioGaps: (ms) => `${ms} ms तक ऑडियो रुकावट`,
+    },
+    playbackHealth: (bufferedMs, underruns) => `बफ़र ${bufferedMs} ms · अंडररन ${underruns}`,
+  },
+  transcript: {
+    chat: "चैट",
+    captions: "कैप्शन",
+    copy: "कॉपी",
+    copied: "कॉपी हो गया",
+    logLabel: "कॉल कैप्शन",
+    emptyChat: "कैप्शन और मैसेज यहाँ दिखेंगे।",
+    emptyCaptions: "कैप्शन यहाँ दिखेंगे।",
+    you: "आप",
+    placeholder: "मैसेज टाइप करें...",
+    messageLabel: "मैसेज",
+    send: "भेजें",
+  },
+  signIn: {
+    phone: "फ़ोन",
+    email: "ईमेल",
+    mobileNumber: "मोबाइल नंबर",
+    sending: "भेजा जा रहा है...",
+    sendCode: "कोड भेजें",
+    sendLink: "साइन-इन लिंक भेजें",
+    codeSent: ["", " पर भेजा गया कोड डालें।"],
+    codePlaceholder: "6 अंकों का कोड",
+    verifying: "सत्यापित हो रहा है...",
+    verify: "सत्यापित करें",
+    differentNumber: "दूसरा नंबर इस्तेमाल करें",
+    linkSent: ["साइन-इन लिंक के लिए ", " देखें। आगे बढ़ने के लिए उसे इसी डिवाइस पर खोलें।"],
+    or: "या",
+    continueAsGuest: "मेहमान के रूप में जारी रखें",
+    errors: {
+      invalid_phone: "सही फ़ोन नंबर डालें",
+      invalid_email: "सही ईमेल पता डालें",
+      invalid_code: "6 अंकों का कोड डालें",
+      wrong_code: "यह कोड गलत है या इसकी समय-सीमा खत्म हो गई है",
+      too_soon: "दोबारा माँगने से पहले थोड़ा इंतज़ार करें",
+      delivery_failed: "भेजा नहीं जा सका, कृपया फिर से कोशिश करें",
+      network: "नेटवर्क त्रुटि, कृपया फिर से कोशिश करें",
+      unknown: "कुछ गड़बड़ हो गई",
+    },
+  },
+  micCheck: {
+    microphone: "माइक्रोफ़ोन",
+    systemDefault: "सिस्टम डिफ़ॉल्ट",
+    microphoneN: (n) => `माइक्रोफ़ोन ${n}`,
+    conversationLanguage: "बातचीत की भाषा",
+    level: "माइक्रोफ़ोन लेवल",
+    accessError: "हम आपके माइक्रोफ़ोन तक नहीं पहुँच पा रहे। अपने ब्राउज़र की अनुमतियाँ जाँचें।",
+    hint: "बोलें और बार को हिलते देखें, या एक छोटा टेस्ट रिकॉर्ड करें।",
+    listening: "सुन रहे हैं... कुछ शब्द बोलें।",
+    playing: "आपका सैंपल चल रहा है।",
+    noSpeech: "हमें कुछ सुनाई नहीं दिया। पास से बोलें या दूसरा माइक्रोफ़ोन चुनें।",
+    recording: "रिकॉर्ड हो रहा है...",
+    recordTest: "टेस्ट रिकॉर्ड करें",
+    playBack: "सुनें",
+    soundsGood: "ठीक है",
+  },
+  addTime: {
+    title: "समय जोड़ें।",
+    subtitle: "भुगतान के दौरान भी आपकी कॉल चलती रहेगी।",
+    dialogLabel: "समय जोड़ें",
+    pay: "समय जोड़ें",
+    checkoutDescription: (length, name) => `${name} के साथ ${length} का अतिरिक्त समय`,
+  },
+  history: {
+    allCreators: "← सभी क्रिएटर्स",
+    title: "कॉल इतिहास।",
+    subtitle: "रिकॉर्डिंग सिर्फ़ इसी ब्राउज़र में रहती हैं। साइट डेटा मिटाने पर वे हट जाएँगी।",
+    loadError: "इस ब्राउज़र में सेव की गई रिकॉर्डिंग नहीं खुल सकीं।",
+    loading: "लोड हो रहा है...",
+    empty: "अभी कोई रिकॉर्डिंग नहीं है। कॉल के दौरान REC दबाएँ और कॉपी यहाँ रखें।",
+    download: "डाउनलोड",
+    delete: "हटाएँ",
+    confirmDelete: "यह रिकॉर्डिंग हटाएँ? इसे वापस नहीं लाया जा सकता।",
+  },
+};
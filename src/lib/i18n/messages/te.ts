@@ -0,0 +1,173 @@
+import type { Messages } from "./en";
+
+export const te: Messages = {
+  meta: {
+    title: "వాయిస్ చాట్",
+    description: "మీకు ఇష్టమైన క్రియేటర్లతో ప్రీమియం ఇంటరాక్టివ్ వాయిస్ చాట్. ఇప్పుడే లైవ్ సెషన్ ప్రారంభించండి.",
+    creatorTitle: (name) => `${name} — వాయిస్ చాట్`,
+  },
+  common: {
+    language: "భాష",
+    processing: "ప్రాసెస్ అవుతోంది...",
+    paymentPending: "మీ చెల్లింపు ఇంకా నిర్ధారణ అవుతోంది.",
+    checkAgain: "మళ్ళీ చూడండి",
+    paymentFailed: "చెల్లింపు విఫలమైంది.",
+    paymentCancelled: "చెల్లింపు రద్దయింది. మీ నుండి డబ్బు తీసుకోలేదు.",
+    paymentErrors: {
+      start_failed: "చెల్లింపు ప్రారంభించలేకపోయాం.",
+      checkout_unavailable: "చెల్లింపు పేజీ తెరవలేకపోయాం.",
+      declined: "చెల్లింపు విఫలమైంది.",
+      verify_failed: "మీ చెల్లింపును ధృవీకరించలేకపోయాం.",
+      network: "నెట్‌వర్క్ లోపం, దయచేసి మళ్ళీ ప్రయత్నించండి.",
+    },
+  },
+  home: {
+    callHistory: "కాల్ చరిత్ర",
+    eyebrow: "లైవ్ వాయిస్ సెషన్లు",
+    title: "మీ అభిమాన తారలతో మాట్లాడండి.",
+    empty: "ప్రస్తుతం క్రియేటర్లు ఎవరూ అందుబాటులో లేరు. దయచేసి కొద్దిసేపటి తర్వాత చూడండి.",
+    fromPrice: (price) => `${price} నుండి`,
+  },
+  session: {
+    startSession: "సెషన్ ప్రారంభించండి",
+    copyTranscript: "చివరి కాల్ ట్రాన్స్‌క్రిప్ట్ కాపీ చేయండి",
+    transcriptCopied: "ట్రాన్స్‌క్రిప్ట్ కాపీ అయింది",
+    recordingSaved: "రికార్డింగ్ సేవ్ అయింది · కాల్ చరిత్ర చూడండి",
+    authTitle: "గుర్తింపు.",
+    authSubtitle: "మీ నిమిషాలు, చరిత్ర భద్రంగా ఉండాలంటే సైన్ ఇన్ చేయండి, లేదా అతిథిగా కొనసాగండి.",
+    micCheckTitle: "మైక్ చెక్.",
+    micCheckSubtitle: "చెల్లించే ముందు మీ మైక్రోఫోన్ ఎంచుకుని, మీ మాట మాకు వినిపిస్తోందో చూసుకోండి.",
+    paymentTitle: "వ్యవధి.",
+    paymentSubtitle: "మీకు కావలసిన సెషన్ నిడివిని ఎంచుకోండి.",
+    signedInAs: ["", " గా సైన్ ఇన్ అయ్యారు"],
+    signOut: "సైన్ అవుట్",
+    tryAgain: "మళ్ళీ ప్రయత్నించండి",
+    beginSession: "సెషన్ మొదలుపెట్టండి",
+    checkoutDescription: (length, name) => `${name}తో ${length} సెషన్`,
+  },
+  call: {
+    status: {
+      connecting: "కనెక్ట్ అవుతోంది...",
+      listening: "వింటున్నాను...",
+      speaking: "మాట్లాడుతున్నాను...",
+      reconnecting: "మళ్ళీ కనెక్ట్ అవుతోంది...",
+      dropped: "కాల్ కట్ అయింది",
+      ending: "ముగిస్తోంది...",
+    },
+    showCaptions: "క్యాప్షన్లు చూపించండి",
+    hideCaptions: "క్యాప్షన్లు దాచండి",
+    recordCall: "ఈ కాల్ రికార్డ్ చేయండి",
+    stopRecording: "రికార్డింగ్ ఆపండి",
+    endCall: "కాల్ ముగించండి",
+    timeLeft: "మిగిలిన సమయం",
+    oneMinuteLeft: "1 నిమిషం మిగిలి ఉంది",
+    addingTime: "సమయం జోడిస్తోంది...",
+    addTime: "+ సమయం జోడించండి",
+    runningLow: "సమయం తక్కువగా ఉంది · జోడించండి",
+    timeAdded: (length) => `+${length} జోడించబడింది`,
+    topUpRejected: "ఈ కాల్‌కు సమయం జోడించలేకపోయాం",
+    topUpRejectedReasons: {
+      invalid_payment: "మీ చెల్లింపు నిర్ధారణ కాలేదు, కాబట్టి సమయం జోడించలేదు",
+      session_over: "ఈ కాల్ అప్పటికే ముగిసింది, కాబట్టి సమయం జోడించలేదు",
+    },
+    interruptSensitivity: "మధ్యలో ఆపే సున్నితత్వం",
+    bargeIn: { off: "ఆఫ్", low: "తక్కువ", medium: "మధ్యస్థం", high: "ఎక్కువ" },
+    droppedMessage: "కాల్‌కు మళ్ళీ కనెక్ట్ కాలేకపోయాం. మీ ఇంటర్నెట్ కనెక్షన్ చూసి మళ్ళీ ప్రయత్నించండి.",
+    backHome: "హోమ్‌కు వెళ్ళండి",
+    useMicrophone: "మైక్రోఫోన్ వాడండి",
+    typeInstead: "టైప్ చేయండి",
+    micBlocked: "మైక్రోఫోన్ అనుమతి బ్లాక్ అయింది, కాబట్టి ఈ కాల్ టెక్స్ట్‌లో మాత్రమే. మాట్లాడటానికి కింద టైప్ చేయండి.",
+    micFailed: "మీ మైక్రోఫోన్ ప్రారంభించలేకపోయాం. మాట్లాడటానికి కింద టైప్ చేయండి.",
+    qualityWarnings: {
+      latency: "మీ కనెక్షన్ నెమ్మదిగా ఉంది, జవాబులు ఆలస్యం కావచ్చు.",
+      jitter: "మీ కనెక్షన్ స్థిరంగా లేదు, ఆడియో మధ్యలో తెగిపోవచ్చు.",
+      loss: "మీ కనెక్షన్ మాటిమాటికీ తెగిపోతోంది.",
+      uplink: "మీ అప్‌లోడ్ నెమ్మదిగా ఉంది, మీ మాట స్పష్టంగా వినిపించకపోవచ్చు.",
+      downlink: "ఆడియో సరిగ్గా అందడం లేదు, జవాబులు ఆగిఆగి వినిపించవచ్చు.",
+    },
+    connection: (quality) => `కనెక్షన్: ${quality}`,
+    offline: "కనెక్షన్: ఆఫ్‌లైన్",
+    qualityLabels: ["చాలా బలహీనం", "బలహీనం", "పర్వాలేదు", "బాగుంది", "అద్భుతం"],
+    stats: {
+      ping: (ms) => `పింగ్ ${ms} ms`,
+      jitter: (ms) => `జిట్టర్ ${ms} ms`,
+      loss: (percent) => `నష్టం ${percent}%`,
+      uplinkBacklog: (ms) => `అప్‌లోడ్ బ్యాక్‌లాగ్ ${ms} ms`,
+      audioGaps: (ms) => `ఆడియో ఖాళీలు ${ms} ms వరకు`,
+    },
+    playbackHealth: (bufferedMs, underruns) => `బఫర్ ${bufferedMs} ms · అండర్‌రన్‌లు ${underruns}`,
+  },
+  transcript: {
+    chat: "చాట్",
+    captions: "క్యాప్షన్లు",
+    copy: "కాపీ",
+    copied: "కాపీ అయింది",
+    logLabel: "కాల్ క్యాప్షన్లు",
+    emptyChat: "క్యాప్షన్లు, మెసేజ్‌లు ఇక్కడ కనిపిస్తాయి.",
+    emptyCaptions: "క్యాప్షన్లు ఇక్కడ కనిపిస్తాయి.",
+    you: "మీరు",
+    placeholder: "మెసేజ్ టైప్ చేయండి...",
+    messageLabel: "మెసేజ్",
+    send: "పంపండి",
+  },
+  signIn: {
+    phone: "ఫోన్",
+    email: "ఈమెయిల్",
+    mobileNumber: "మొబైల్ నంబర్",
+    sending: "పంపుతోంది...",
+    sendCode: "కోడ్ పంపండి",
+    sendLink: "సైన్-ఇన్ లింక్ పంపండి",
+    codeSent: ["", " కు మేము పంపిన కోడ్‌ను నమోదు చేయండి."],
+    codePlaceholder: "6 అంకెల కోడ్",
+    verifying: "ధృవీకరిస్తోంది...",
+    verify: "ధృవీకరించండి",
+    differentNumber: "వేరే నంబర్ వాడండి",
+    linkSent: ["సైన్-ఇన్ లింక్ కోసం ", " చూడండి. కొనసాగడానికి దాన్ని ఇదే పరికరంలో తెరవండి."],
+    or: "లేదా",
+    continueAsGuest: "అతిథిగా కొనసాగండి",
+    errors: {
+      invalid_phone: "సరైన ఫోన్ నంబర్ నమోదు చేయండి",
+      invalid_email: "సరైన ఈమెయిల్ చిరునామా నమోదు చేయండి",
+      invalid_code: "6 అంకెల కోడ్ నమోదు చేయండి",
+      wrong_code: "ఆ కోడ్ తప్పు లేదా గడువు ముగిసింది",
+      too_soon: "మళ్ళీ అడిగే ముందు కొద్దిసేపు ఆగండి",
+      delivery_failed: "పంపలేకపోయాం, దయచేసి మళ్ళీ ప్రయత్నించండి",
+      network: "నెట్‌వర్క్ లోపం, దయచేసి మళ్ళీ ప్రయత్నించండి",
+      unknown: "ఏదో పొరపాటు జరిగింది",
+    },
+  },
+  micCheck: {
+    microphone: "మైక్రోఫోన్",
+    systemDefault: "సిస్టమ్ డిఫాల్ట్",
+    microphoneN: (n) => `మైక్రోఫోన్ ${n}`,
+    conversationLanguage: "సంభాషణ భాష",
+    level: "మైక్రోఫోన్ స్థాయి",
+    accessError: "మీ మైక్రోఫోన్‌ను యాక్సెస్ చేయలేకపోతున్నాం. మీ బ్రౌజర్ అనుమతులు చూడండి.",
+    hint: "మాట్లాడి బార్ కదులుతుందో చూడండి, లేదా చిన్న టెస్ట్ రికార్డ్ చేయండి.",
+    listening: "వింటున్నాం... కొన్ని మాటలు మాట్లాడండి.",
+    playing: "మీ శాంపిల్ ప్లే అవుతోంది.",
+    noSpeech: "మాకు ఏమీ వినిపించలేదు. మైక్‌కు దగ్గరగా మాట్లాడండి లేదా వేరే మైక్రోఫోన్ ఎంచుకోండి.",
+    recording: "రికార్డ్ అవుతోంది...",
+    recordTest: "టెస్ట్ రికార్డ్",
+    playBack: "ప్లే చేయండి",
+    soundsGood: "బాగుంది",
+  },
+  addTime: {
+    title: "సమయం జోడించండి.",
+    subtitle: "మీరు చెల్లిస్తున్నప్పుడు కూడా కాల్ కొనసాగుతుంది.",
+    dialogLabel: "సమయం జోడించండి",
+    pay: "సమయం జోడించండి",
+    checkoutDescription: (length, name) => `${name}తో ${length} అదనపు సమయం`,
+  },
+  history: {
+    allCreators: "← అందరు క్రియేటర్లు",
+    title: "కాల్ చరిత్ర.",
+    subtitle: "రికార్డింగ్‌లు ఈ బ్రౌజర్‌లో మాత్రమే ఉంటాయి. సైట్ డేటా క్లియర్ చేస్తే అవి తొలగిపోతాయి.",
+    loadError: "ఈ బ్రౌజర్‌లో సేవ్ చేసిన రికార్డింగ్‌లను తెరవలేకపోయాం.",
+    loading: "లోడ్ అవుతోంది...",
+    empty: "ఇంకా రికార్డింగ్‌లు లేవు. కాల్ సమయంలో REC నొక్కితే ఇక్కడ కాపీ ఉంటుంది.",
+    download: "డౌన్‌లోడ్",
+    delete: "తొలగించండి",
+    confirmDelete: "ఈ రికార్డింగ్‌ను తొలగించాలా? దీన్ని తిరిగి పొందలేరు.",
+  },
+};
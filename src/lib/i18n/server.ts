@@ -0,0 +1,11 @@
+import { cookies, headers } from "next/headers";
+import { LOCALE_COOKIE, isLocale, negotiateLocale, type Locale } from ".";
+
+/**
+ * Locale for the current request: the saved choice, else `Accept-Language`.
+ */
+export const getRequestLocale = async (): Promise<Locale> => {
+  const saved = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(saved)) return saved;
+  return negotiateLocale((await headers()).get("accept-language"));
+};
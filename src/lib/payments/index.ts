@@ -0,0 +1,36 @@
+/**
+ * Picks the payment provider from the environment:
+ *
+ * - `PAYMENT_PROVIDER=razorpay` with `RAZORPAY_KEY_ID` / `RAZORPAY_KEY_SECRET`
+ * - `PAYMENT_PROVIDER=mock` (default outside production)
+ */
+
+import { createMockProvider } from "./mockProvider";
+import { createRazorpayProvider } from "./razorpayProvider";
+import type { PaymentProvider } from "./types";
+
+let provider: PaymentProvider | null = null;
+
+export const getPaymentProvider = (): PaymentProvider => {
+  if (provider) return provider;
+
+  const configured =
+    process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === "production" ? "razorpay" : "mock");
+
+  if (configured === "razorpay") {
+    const keyId = process.env.RAZORPAY_KEY_ID;
+    const keySecret = process.env.RAZORPAY_KEY_SECRET;
+    if (!keyId || !keySecret) {
+      throw new Error("RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET must be set");
+    }
+    provider = createRazorpayProvider(keyId, keySecret);
+  } else if (configured === "mock") {
+    provider = createMockProvider();
+  } else {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${configured}"`);
+  }
+
+  return provider;
+};
+
+export type * from "./types";
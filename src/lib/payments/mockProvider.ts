@@ -0,0 +1,83 @@
+/**
+ * Local payment provider for development and tests. Orders live in memory
+ * and `completeMockPayment` plays the part of the gateway's checkout.
+ */
+
+import { randomUUID } from "crypto";
+import { CURRENCY } from "../pricing";
+import { hmacHex, safeEqual } from "../signature";
+import type { PaymentOrder, PaymentProvider, PaymentStatus } from "./types";
+
+const MOCK_SECRET = process.env.MOCK_PAYMENT_SECRET || "mock-payment-secret";
+
+export type MockOutcome = "success" | "pending" | "failed";
+
+/* Pending mock payments settle as paid after this long */
+const PENDING_SETTLE_MS = 5000;
+
+interface MockPayment {
+  status: PaymentStatus;
+  createdAt: number;
+}
+
+interface MockOrderRecord {
+  order: PaymentOrder;
+  payments: Map<string, MockPayment>;
+}
+
+/* Survive dev-server module reloads */
+const globalStore = globalThis as typeof globalThis & {
+  __mockPaymentOrders?: Map<string, MockOrderRecord>;
+};
+const orders = (globalStore.__mockPaymentOrders ??= new Map());
+
+/**
+ * Simulate the customer finishing checkout. Returns what a real gateway
+ * hands back to the browser, or null for an unknown order.
+ */
+export const completeMockPayment = (
+  orderId: string,
+  outcome: MockOutcome,
+): { paymentId: string; signature: string } | null => {
+  const record = orders.get(orderId);
+  if (!record) return null;
+
+  const paymentId = `pay_mock_${randomUUID().slice(0, 12)}`;
+  record.payments.set(paymentId, {
+    status: outcome === "success" ? "paid" : outcome,
+    createdAt: Date.now(),
+  });
+  return { paymentId, signature: hmacHex(MOCK_SECRET, `${orderId}|${paymentId}`) };
+};
+
+export const createMockProvider = (): PaymentProvider => ({
+  id: "mock",
+
+  clientConfig: () => ({}),
+
+  createOrder: async (option, creator) => {
+    const order: PaymentOrder = {
+      id: `order_mock_${randomUUID().slice(0, 12)}`,
+      amount: option.price * 100,
+      currency: CURRENCY,
+      minutes: option.minutes,
+      creator,
+    };
+    orders.set(order.id, { order, payments: new Map() });
+    return order;
+  },
+
+  verifyPayment: async ({ orderId, paymentId, signature }) => {
+    const expected = hmacHex(MOCK_SECRET, `${orderId}|${paymentId}`);
+    const record = orders.get(orderId);
+    if (!record || !safeEqual(expected, signature)) {
+      return { status: "failed", order: null, reason: "invalid signature" };
+    }
+    const payment = record.payments.get(paymentId);
+    let status: PaymentStatus = payment?.status ?? "failed";
+    if (status === "pending" && Date.now() - payment!.createdAt >= PENDING_SETTLE_MS) {
+      status = "paid";
+    }
+    return { status, order: record.order, reason: status === "failed" ? "payment declined" : undefined };
+  },
+});
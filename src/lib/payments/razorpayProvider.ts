@@ -0,0 +1,94 @@
+/**
+ * Razorpay gateway (https://razorpay.com/docs/api/) over its REST API.
+ */
+
+import { CURRENCY } from "../pricing";
+import { hmacHex, safeEqual } from "../signature";
+import type { PaymentOrder, PaymentProvider, PaymentStatus } from "./types";
+
+const API_BASE = "https://api.razorpay.com/v1";
+
+interface RazorpayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  notes?: Record<string, string>;
+}
+
+interface RazorpayPayment {
+  id: string;
+  order_id: string;
+  status: "created" | "authorized" | "captured" | "refunded" | "failed";
+  error_description?: string;
+}
+
+export const createRazorpayProvider = (keyId: string, keySecret: string): PaymentProvider => {
+  const authorization = `Basic ${Buffer.from(`${keyId}:${keySecret}`).toString("base64")}`;
+
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const res = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: { Authorization: authorization, "Content-Type": "application/json" },
+      cache: "no-store",
+    });
+    if (!res.ok) {
+      throw new Error(`Razorpay ${path} failed with ${res.status}`);
+    }
+    return res.json() as Promise<T>;
+  };
+
+  const toOrder = (order: RazorpayOrder): PaymentOrder => ({
+    id: order.id,
+    amount: order.amount,
+    currency: order.currency,
+    minutes: Number(order.notes?.minutes ?? 0),
+    creator: order.notes?.creator ?? "",
+  });
+
+  return {
+    id: "razorpay",
+
+    clientConfig: () => ({ keyId }),
+
+    createOrder: async (option, creator) => {
+      const order = await request<RazorpayOrder>("/orders", {
+        method: "POST",
+        body: JSON.stringify({
+          amount: option.price * 100,
+          currency: CURRENCY,
+          notes: { minutes: String(option.minutes), creator },
+        }),
+      });
+      return toOrder(order);
+    },
+
+    verifyPayment: async ({ orderId, paymentId, signature }) => {
+      const expected = hmacHex(keySecret, `${orderId}|${paymentId}`);
+      if (!safeEqual(expected, signature)) {
+        return { status: "failed", order: null, reason: "invalid signature" };
+      }
+
+      const [order, payment] = await Promise.all([
+        request<RazorpayOrder>(`/orders/${encodeURIComponent(orderId)}`),
+        request<RazorpayPayment>(`/payments/${encodeURIComponent(paymentId)}`),
+      ]);
+      if (payment.order_id !== orderId) {
+        return { status: "failed", order: null, reason: "payment does not belong to order" };
+      }
+
+      // Orders are created with auto-capture, so "authorized" is still settling
+      const status: PaymentStatus =
+        payment.status === "captured"
+          ? "paid"
+          : payment.status === "created" || payment.status === "authorized"
+            ? "pending"
+            : "failed";
+
+      return {
+        status,
+        order: toOrder(order),
+        reason: status === "failed" ? payment.error_description ?? `payment ${payment.status}` : undefined,
+      };
+    },
+  };
+};
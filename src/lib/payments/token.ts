@@ -0,0 +1,36 @@
+/**
+ * Payment tokens: proof of a verified payment that the call backend accepts
+ * in `session_start`. Format is `base64url(json).hex(hmac-sha256)`.
+ */
+
+import { readSignedPayload, signPayload } from "../signature";
+
+export interface PaymentTokenPayload {
+  orderId: string;
+  paymentId: string;
+  minutes: number;
+  /** Creator slug; the backend must only start a call with this creator */
+  creator: string;
+  /** Unix ms after which the token can no longer start a call */
+  exp: number;
+}
+
+const TOKEN_TTL_MS = 15 * 60 * 1000;
+
+const getSecret = (): string => {
+  const secret = process.env.PAYMENT_TOKEN_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("PAYMENT_TOKEN_SECRET is not set");
+  }
+  return "dev-payment-token-secret";
+};
+
+export const signPaymentToken = (payload: Omit<PaymentTokenPayload, "exp">): string =>
+  signPayload(getSecret(), { ...payload, exp: Date.now() + TOKEN_TTL_MS });
+
+/** Returns the payload of a valid, unexpired token, otherwise null. */
+export const verifyPaymentToken = (token: string): PaymentTokenPayload | null => {
+  const payload = readSignedPayload<PaymentTokenPayload>(getSecret(), token);
+  return payload && payload.exp > Date.now() ? payload : null;
+};
@@ -0,0 +1,64 @@
+/**
+ * Payment gateway abstraction used by the `/api/payments/*` routes.
+ */
+
+import type { TimeOption } from "../pricing";
+
+export interface PaymentOrder {
+  id: string;
+  /** Amount in the smallest currency unit (paise) */
+  amount: number;
+  currency: string;
+  /** Session minutes this order pays for */
+  minutes: number;
+  /** Slug of the creator the session is with */
+  creator: string;
+}
+
+export type PaymentStatus = "paid" | "pending" | "failed";
+
+export interface VerifyPaymentInput {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+}
+
+export interface VerifyPaymentResult {
+  status: PaymentStatus;
+  /** The order, once the signature has been checked */
+  order: PaymentOrder | null;
+  reason?: string;
+}
+
+export interface PaymentProvider {
+  readonly id: "mock" | "razorpay";
+  /** Public settings the browser checkout needs (never secrets) */
+  clientConfig: () => Record<string, string>;
+  createOrder: (option: TimeOption, creator: string) => Promise<PaymentOrder>;
+  /** Check the gateway signature and the payment's current state */
+  verifyPayment: (input: VerifyPaymentInput) => Promise<VerifyPaymentResult>;
+}
+
+/** Shape returned by `POST /api/payments/orders` */
+export interface CreateOrderResponse {
+  provider: PaymentProvider["id"];
+  order: PaymentOrder;
+  config: Record<string, string>;
+}
+
+/** Shape returned by `POST /api/payments/verify` */
+export type VerifyPaymentResponse =
+  | { status: "paid"; paymentToken: string; minutes: number }
+  | { status: "pending" }
+  /** `reason` is the gateway's own wording, for logs rather than the UI */
+  | { status: "failed"; reason?: string };
+
+/** `error` in a failed `/api/payments/*` response */
+export type PaymentErrorCode =
+  | "unknown_creator"
+  | "unknown_length"
+  | "order_failed"
+  | "invalid_payment"
+  | "verify_failed"
+  | "not_found"
+  | "unknown_order";
@@ -0,0 +1,26 @@
+/**
+ * Session lengths and prices. Each creator carries its own list (see
+ * `./creators`), shared by the UI and the payment routes so the server never
+ * trusts a price sent by the browser.
+ */
+
+export interface TimeOption {
+  minutes: number;
+  /** Price in whole rupees */
+  price: number;
+  label: string;
+}
+
+export const CURRENCY = "INR";
+
+/** Price list for creators whose catalog entry doesn't set one */
+export const TIME_OPTIONS: TimeOption[] = [
+  { minutes: 0.5, price: 49, label: "30 sec" },
+  { minutes: 15, price: 299, label: "15 min" },
+  { minutes: 20, price: 399, label: "20 min" },
+  { minutes: 30, price: 599, label: "30 min" },
+  { minutes: 60, price: 999, label: "60 min" },
+];
+
+export const findTimeOption = (options: TimeOption[], minutes: number): TimeOption | null =>
+  options.find((opt) => opt.minutes === minutes) ?? null;
@@ -0,0 +1,36 @@
+/**
+ * HMAC helpers shared by payments and auth.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const hmacHex = (secret: string, data: string): string =>
+  createHmac("sha256", secret).update(data).digest("hex");
+
+/** Constant-time comparison of two hex/base64url strings. */
+export const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+/**
+ * Encode `payload` as `base64url(json).hex(hmac-sha256)`.
+ */
+export const signPayload = (secret: string, payload: object): string => {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${hmacHex(secret, body)}`;
+};
+
+/**
+ * Decode a token made by `signPayload`; null if the signature is wrong.
+ */
+export const readSignedPayload = <T>(secret: string, token: string): T | null => {
+  const [body, sig] = token.split(".");
+  if (!body || !sig || !safeEqual(hmacHex(secret, body), sig)) return null;
+  try {
+    return JSON.parse(Buffer.from(body, "base64url").toString()) as T;
+  } catch {
+    return null;
+  }
+};
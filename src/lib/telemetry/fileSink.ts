@@ -0,0 +1,21 @@
+/**
+ * Appends events to a newline-delimited JSON file, one event per line.
+ */
+
+import { appendFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import type { TelemetrySink } from "./types";
+
+export const createFileSink = (path: string): TelemetrySink => {
+  let ready: Promise<unknown> | null = null;
+
+  return {
+    id: "file",
+
+    write: async (events) => {
+      ready ??= mkdir(dirname(path), { recursive: true });
+      await ready;
+      await appendFile(path, events.map((event) => `${JSON.stringify(event)}\n`).join(""));
+    },
+  };
+};
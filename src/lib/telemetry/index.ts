@@ -0,0 +1,163 @@
+/**
+ * Picks the telemetry sink from `TELEMETRY_SINK`:
+ *
+ * - `file` (default) — appends NDJSON to `TELEMETRY_FILE` (default `.data/telemetry.ndjson`)
+ * - `log` — prints each event to the server log
+ */
+
+import { checkField, type FieldSpec } from "../fieldSpec";
+import { createFileSink } from "./fileSink";
+import type { TelemetryEventName, TelemetryRecord, TelemetrySink } from "./types";
+
+/** Most events accepted in one request */
+export const MAX_BATCH_EVENTS = 100;
+/** Largest request body accepted; a full client batch is well under this */
+export const MAX_BATCH_BYTES = 8 * 1024;
+/* Longest string field kept; creator slugs and error names are far shorter */
+const MAX_FIELD_LENGTH = 200;
+/* Requests per client per window */
+const RATE_LIMIT = 30;
+/* Requests per window from everyone together; bounds disk growth */
+const GLOBAL_RATE_LIMIT = 1200;
+const RATE_WINDOW_MS = 60 * 1000;
+/* Clients tracked at once; the oldest window is dropped beyond this */
+const MAX_TRACKED_CLIENTS = 10000;
+
+let sink: TelemetrySink | null = null;
+
+export const getTelemetrySink = (): TelemetrySink => {
+  if (sink) return sink;
+
+  const configured = process.env.TELEMETRY_SINK || "file";
+  if (configured === "file") {
+    sink = createFileSink(process.env.TELEMETRY_FILE || ".data/telemetry.ndjson");
+  } else if (configured === "log") {
+    sink = {
+      id: "log",
+      write: async (events) => {
+        events.forEach((event) => console.info("[telemetry]", JSON.stringify(event)));
+      },
+    };
+  } else {
+    throw new Error(`Unknown TELEMETRY_SINK "${configured}"`);
+  }
+
+  return sink;
+};
+
+/* ────────────────────────────────────────────────────
+ *  Validation
+ * ──────────────────────────────────────────────────── */
+
+/* Expected fields per event (besides `name`, `at` and `pageId`) */
+const EVENT_FIELDS: { [K in TelemetryEventName]: Record<string, FieldSpec> } = {
+  flow_state: { creator: "string", from: "string", to: "string" },
+  ws_connect: { creator: "string", durationMs: "number", resumed: "boolean" },
+  response_latency: { creator: "string", latencyMs: "number", input: ["speech", "text"] },
+  mic_start_failed: { creator: "string", error: "string" },
+  call_end: {
+    creator: "string",
+    reason: ["user", "expired", "dropped", "server_closed", "page_closed"],
+    durationMs: "number",
+  },
+};
+
+const isEventName = (name: unknown): name is TelemetryEventName =>
+  typeof name === "string" && Object.prototype.hasOwnProperty.call(EVENT_FIELDS, name);
+
+/**
+ * Keep only the well-formed events of a batch, dropping unknown fields so
+ * nothing unexpected reaches storage. Returns null if the body isn't a batch.
+ */
+export const parseTelemetryBatch = (body: unknown): TelemetryRecord[] | null => {
+  const events = (body as { events?: unknown } | null)?.events;
+  if (!Array.isArray(events) || events.length > MAX_BATCH_EVENTS) return null;
+
+  return events.flatMap((raw): TelemetryRecord[] => {
+    if (typeof raw !== "object" || raw === null) return [];
+    const event = raw as Record<string, unknown>;
+    if (
+      !isEventName(event.name) ||
+      !checkField(event.at, "number") ||
+      !checkField(event.pageId, "string", MAX_FIELD_LENGTH)
+    ) {
+      return [];
+    }
+
+    const fields = EVENT_FIELDS[event.name];
+    const record: Record<string, unknown> = { name: event.name, at: event.at, pageId: event.pageId };
+    for (const [key, spec] of Object.entries(fields)) {
+      if (!checkField(event[key], spec, MAX_FIELD_LENGTH)) return [];
+      record[key] = event[key];
+    }
+    return [record as TelemetryRecord];
+  });
+};
+
+/* ────────────────────────────────────────────────────
+ *  Rate limit
+ * ──────────────────────────────────────────────────── */
+
+interface RateWindow {
+  startedAt: number;
+  count: number;
+}
+
+/* Survive dev-server module reloads */
+const globalStore = globalThis as typeof globalThis & {
+  __telemetryWindows?: Map<string, RateWindow>;
+  __telemetryGlobalWindow?: RateWindow;
+};
+/* Insertion order is start order: a window is only ever added when it starts */
+const windows = (globalStore.__telemetryWindows ??= new Map());
+
+const countRequest = (current: RateWindow, now: number): RateWindow =>
+  now - current.startedAt >= RATE_WINDOW_MS ? { startedAt: now, count: 1 } : { ...current, count: current.count + 1 };
+
+/**
+ * The caller's address as reported by a trusted proxy, or null when none is
+ * configured. `TRUSTED_IP_HEADER` names a header the proxy sets itself, e.g.
+ * `x-real-ip`; for `x-forwarded-for` the last entry (the one the proxy
+ * appended) is used, since anything before it came from the client.
+ */
+export const telemetryClientAddress = (headers: Headers): string | null => {
+  const header = process.env.TRUSTED_IP_HEADER?.toLowerCase();
+  const value = header ? headers.get(header) : null;
+  if (!value) return null;
+  const address = header === "x-forwarded-for" ? value.split(",").pop() : value;
+  return address?.trim() || null;
+};
+
+/**
+ * Count a request and say whether it is within the limits: per client when
+ * its address is known (see `telemetryClientAddress`), and site-wide always.
+ * Held in memory, so each instance limits on its own.
+ */
+export const allowTelemetryRequest = (client: string | null): boolean => {
+  const now = Date.now();
+
+  const total = countRequest(globalStore.__telemetryGlobalWindow ?? { startedAt: now, count: 0 }, now);
+  globalStore.__telemetryGlobalWindow = total;
+  if (total.count > GLOBAL_RATE_LIMIT) return false;
+  if (!client) return true;
+
+  // Expired windows sit at the front; stop at the first live one
+  for (const [key, entry] of windows) {
+    if (now - entry.startedAt < RATE_WINDOW_MS) break;
+    windows.delete(key);
+  }
+
+  const entry = windows.get(client);
+  if (entry) {
+    entry.count += 1;
+    return entry.count <= RATE_LIMIT;
+  }
+  if (windows.size >= MAX_TRACKED_CLIENTS) {
+    const oldest = windows.keys().next().value;
+    if (oldest !== undefined) windows.delete(oldest);
+  }
+  windows.set(client, { startedAt: now, count: 1 });
+  return true;
+};
+
+export type * from "./types";
@@ -0,0 +1,40 @@
+/**
+ * Telemetry events shared by the browser and `/api/telemetry`.
+ */
+
+export type CallEndReason = "user" | "expired" | "dropped" | "server_closed" | "page_closed";
+
+export type TelemetryEvent =
+  /** The session flow moved on (idle → auth → micCheck → payment → active) */
+  | { name: "flow_state"; creator: string; from: string; to: string }
+  /** The call socket finished its handshake; `resumed` after a reconnect */
+  | { name: "ws_connect"; creator: string; durationMs: number; resumed: boolean }
+  /** From the end of the user's turn to the first TTS chunk of the reply */
+  | { name: "response_latency"; creator: string; latencyMs: number; input: "speech" | "text" }
+  /** `getUserMedia` or capture setup failed; `error` is the DOMException name */
+  | { name: "mic_start_failed"; creator: string; error: string }
+  | { name: "call_end"; creator: string; reason: CallEndReason; durationMs: number };
+
+export type TelemetryEventName = TelemetryEvent["name"];
+
+/** One event as sent by the browser */
+export type TelemetryRecord = TelemetryEvent & {
+  /** Client Unix ms when it happened */
+  at: number;
+  /** Random per page load, to group one visitor's events */
+  pageId: string;
+};
+
+/** Body of `POST /api/telemetry` */
+export interface TelemetryBatch {
+  events: TelemetryRecord[];
+}
+
+/**
+ * Where accepted events end up. The file sink suits a single server; point
+ * a database-backed sink at the same interface for anything bigger.
+ */
+export interface TelemetrySink {
+  readonly id: string;
+  write: (events: (TelemetryRecord & { receivedAt: number })[]) => Promise<void>;
+}
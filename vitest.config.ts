@@ -0,0 +1,9 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Same `@/` alias as tsconfig.json
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+});